@@ -14,18 +14,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
-import { Play, Settings, RotateCcw, Plus, Square } from "lucide-react";
+import { Play, Settings, RotateCcw, Plus, Square, X } from "lucide-react";
 
-import { API_ENDPOINTS, DEFAULT_CONFIG, type ApiEndpoint } from "@/config/api-endpoints";
+import { API_ENDPOINTS, DEFAULT_CONFIG, getEndpointRequiredRole, type ApiEndpoint } from "@/config/api-endpoints";
+import { hasRole, type RedirectMode, type RequestBodyField, type RequestBodyType } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
 import { constructUrl } from "@/utils/url-utils";
+import { IdentitySelector } from "@/components/identity-selector";
+import { RequestBodyEditor } from "@/components/request-body-editor";
+import { CookieJarEditor } from "@/components/cookie-jar-editor";
 
 interface ApiRequestFormProps {
   /** Current URL value */
   url: string;
   /** Current HTTP method */
   method: string;
-  /** Current authentication token */
-  token: string;
+  /** Name of the server-side identity the proxy authenticates as */
+  identity: string;
   /** Current selected endpoint ID */
   selectedEndpoint: string;
   /** Current endpoint parameters */
@@ -44,16 +49,38 @@ interface ApiRequestFormProps {
   isPaused?: boolean;
   /** Whether there's a checkpoint to resume from */
   hasCheckpoint?: boolean;
+  /** Whether responses are streamed instead of buffered by the proxy */
+  streamResponse?: boolean;
+  /** Upstream timeout in seconds, empty for the proxy default */
+  timeoutSeconds?: string;
+  /** Whether the proxy follows, returns or rejects upstream redirects */
+  redirectMode?: RedirectMode;
+  /** Named cookie jar the request uses, empty for none */
+  cookieJar?: string;
+  /** Request body settings (see RequestBodyEditor) */
+  bodyType?: RequestBodyType;
+  body?: string;
+  rawContentType?: string;
+  bodyFields?: RequestBodyField[];
   
   /** Event handlers */
   onUrlChange: (url: string) => void;
   onMethodChange: (method: string) => void;
-  onTokenChange: (token: string) => void;
+  onIdentityChange: (identity: string) => void;
   onEndpointChange: (endpointId: string) => void;
   onParametersChange: (params: Record<string, string>) => void;
   onShowCustomUrlToggle: (show: boolean) => void;
   onBulkModeToggle: (enabled: boolean) => void;
   onBulkInputChange: (input: string) => void;
+  onStreamResponseToggle?: (enabled: boolean) => void;
+  onTimeoutChange?: (seconds: string) => void;
+  onRedirectModeChange?: (mode: RedirectMode) => void;
+  onCookieJarChange?: (cookieJar: string) => void;
+  onBodyTypeChange?: (bodyType: RequestBodyType) => void;
+  onBodyChange?: (body: string) => void;
+  onRawContentTypeChange?: (contentType: string) => void;
+  onBodyFieldsChange?: (fields: RequestBodyField[]) => void;
+  onCancel?: () => void;
   onSubmit: () => void;
   onReset: () => void;
 }
@@ -61,7 +88,7 @@ interface ApiRequestFormProps {
 export function ApiRequestForm({
   url,
   method,
-  token,
+  identity,
   selectedEndpoint,
   parameters,
   showCustomUrl,
@@ -71,18 +98,40 @@ export function ApiRequestForm({
   isProcessing = false,
   isPaused = false,
   hasCheckpoint = false,
+  streamResponse = false,
+  timeoutSeconds = "",
+  redirectMode = "follow",
+  cookieJar = "",
+  bodyType = "json",
+  body = "",
+  rawContentType = "text/plain",
+  bodyFields = [],
   onUrlChange,
   onMethodChange,
-  onTokenChange,
+  onIdentityChange,
   onEndpointChange,
   onParametersChange,
   onShowCustomUrlToggle,
   onBulkModeToggle,
   onBulkInputChange,
+  onStreamResponseToggle,
+  onTimeoutChange,
+  onRedirectModeChange,
+  onCookieJarChange,
+  onBodyTypeChange,
+  onBodyChange,
+  onRawContentTypeChange,
+  onBodyFieldsChange,
+  onCancel,
   onSubmit,
   onReset
 }: ApiRequestFormProps) {
   const [currentEndpoint, setCurrentEndpoint] = useState<ApiEndpoint | undefined>();
+  const { user } = useAuth();
+
+  // The proxy refuses these anyway - don't offer them
+  const canUseEndpoint = (endpoint: ApiEndpoint) =>
+    !!user && hasRole(user.role, getEndpointRequiredRole(endpoint));
 
   // Update current endpoint when selection changes
   useEffect(() => {
@@ -117,12 +166,15 @@ export function ApiRequestForm({
   const handleReset = () => {
     onUrlChange(DEFAULT_CONFIG.DEFAULT_URL);
     onMethodChange("GET");
-    onTokenChange(DEFAULT_CONFIG.DEFAULT_TOKEN);
     onEndpointChange("");
     onParametersChange({});
     onShowCustomUrlToggle(false); // Changed to false to match the hook default
     onBulkModeToggle(false);
     onBulkInputChange("");
+    onStreamResponseToggle?.(false);
+    onTimeoutChange?.("");
+    onRedirectModeChange?.("follow");
+    onCookieJarChange?.("");
     onReset();
   };
 
@@ -157,10 +209,14 @@ export function ApiRequestForm({
             </SelectTrigger>
             <SelectContent>
               {API_ENDPOINTS.map((endpoint) => (
-                <SelectItem key={endpoint.id} value={endpoint.id}>
+                <SelectItem key={endpoint.id} value={endpoint.id} disabled={!canUseEndpoint(endpoint)}>
                   <div>
                     <div className="font-medium">{endpoint.name}</div>
-                    <div className="text-sm text-gray-500">{endpoint.description}</div>
+                    <div className="text-sm text-gray-500">
+                      {canUseEndpoint(endpoint)
+                        ? endpoint.description
+                        : `Requires the ${getEndpointRequiredRole(endpoint)} role`}
+                    </div>
                   </div>
                 </SelectItem>
               ))}
@@ -182,6 +238,20 @@ export function ApiRequestForm({
             Use custom URL
           </Label>
         </div>
+
+        {/* Streaming Toggle */}
+        {onStreamResponseToggle && !bulkMode && (
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="stream-response"
+              checked={streamResponse}
+              onCheckedChange={onStreamResponseToggle}
+            />
+            <Label htmlFor="stream-response" className="text-sm">
+              Stream response (for large payloads)
+            </Label>
+          </div>
+        )}
       </CardHeader>
 
       <CardContent className="space-y-6">
@@ -199,25 +269,62 @@ export function ApiRequestForm({
           />
         </div>
 
-        {/* HTTP Method Selection */}
-        <div className="space-y-2">
-          <Label htmlFor="method">HTTP Method</Label>
-          <Select value={method} onValueChange={onMethodChange}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="GET">GET</SelectItem>
-              <SelectItem value="POST">POST</SelectItem>
-              <SelectItem value="PUT">PUT</SelectItem>
-              <SelectItem value="DELETE">DELETE</SelectItem>
-              <SelectItem value="PATCH">PATCH</SelectItem>
-              <SelectItem value="HEAD">HEAD</SelectItem>
-              <SelectItem value="OPTIONS">OPTIONS</SelectItem>
-              <SelectItem value="TRACE">TRACE</SelectItem>
-              <SelectItem value="CONNECT">CONNECT</SelectItem>
-            </SelectContent>
-          </Select>
+        {/* Request Options */}
+        <div className="flex items-end gap-4">
+          {/* HTTP Method Selection */}
+          <div className="space-y-2">
+            <Label htmlFor="method">HTTP Method</Label>
+            <Select value={method} onValueChange={onMethodChange}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="GET">GET</SelectItem>
+                <SelectItem value="POST">POST</SelectItem>
+                <SelectItem value="PUT">PUT</SelectItem>
+                <SelectItem value="DELETE">DELETE</SelectItem>
+                <SelectItem value="PATCH">PATCH</SelectItem>
+                <SelectItem value="HEAD">HEAD</SelectItem>
+                <SelectItem value="OPTIONS">OPTIONS</SelectItem>
+                <SelectItem value="TRACE">TRACE</SelectItem>
+                <SelectItem value="CONNECT">CONNECT</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Upstream Timeout */}
+          {onTimeoutChange && (
+            <div className="space-y-2">
+              <Label htmlFor="timeout">Timeout (seconds)</Label>
+              <Input
+                id="timeout"
+                type="number"
+                min={1}
+                max={300}
+                value={timeoutSeconds}
+                onChange={(e) => onTimeoutChange(e.target.value)}
+                placeholder="30"
+                className="w-32"
+              />
+            </div>
+          )}
+
+          {/* Redirect Handling */}
+          {onRedirectModeChange && (
+            <div className="space-y-2">
+              <Label>Redirects</Label>
+              <Select value={redirectMode} onValueChange={(value) => onRedirectModeChange(value as RedirectMode)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="follow">Follow</SelectItem>
+                  <SelectItem value="manual">Stop at first</SelectItem>
+                  <SelectItem value="error">Fail on redirect</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
         {/* Parameters Section */}
@@ -270,18 +377,31 @@ export function ApiRequestForm({
           </>
         )}
 
-        {/* Authentication Token */}
-        <div className="space-y-2">
-          <Label htmlFor="token">Authentication Token</Label>
-          <Textarea
-            id="token"
-            value={token}
-            onChange={(e) => onTokenChange(e.target.value)}
-            placeholder="Enter your JWT token here..."
-            rows={4}
-            className="font-mono text-xs"
-          />
-        </div>
+        {/* Request Body - bulk runs only send the endpoint's own requests */}
+        {!bulkMode && !["GET", "HEAD", "OPTIONS"].includes(method) &&
+          onBodyTypeChange && onBodyChange && onRawContentTypeChange && onBodyFieldsChange && (
+          <>
+            <Separator />
+            <RequestBodyEditor
+              bodyType={bodyType}
+              body={body}
+              contentType={rawContentType}
+              fields={bodyFields}
+              onBodyTypeChange={onBodyTypeChange}
+              onBodyChange={onBodyChange}
+              onContentTypeChange={onRawContentTypeChange}
+              onFieldsChange={onBodyFieldsChange}
+            />
+          </>
+        )}
+
+        {/* Authentication Identity */}
+        <IdentitySelector identity={identity} onIdentityChange={onIdentityChange} />
+
+        {/* Cookie Jar - bulk runs do not share cookies */}
+        {!bulkMode && onCookieJarChange && (
+          <CookieJarEditor cookieJar={cookieJar} url={url} onCookieJarChange={onCookieJarChange} />
+        )}
 
         {/* Action Buttons */}
         <div className="flex space-x-2 pt-4">
@@ -314,6 +434,13 @@ export function ApiRequestForm({
             )}
           </Button>
           
+          {!bulkMode && isLoading && onCancel && (
+            <Button variant="destructive" onClick={onCancel}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+          
           <Button variant="outline" onClick={handleReset} disabled={isLoading}>
             <RotateCcw className="w-4 h-4 mr-2" />
             Reset
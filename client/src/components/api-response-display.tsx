@@ -7,17 +7,23 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { JsonViewer } from "@/components/json-viewer";
+import { TimingWaterfall } from "@/components/timing-waterfall";
 import { 
   CheckCircle, 
   AlertTriangle, 
   Clock, 
   Database,
   Copy,
-  FileText
+  FileText,
+  Download
 } from "lucide-react";
 import type { ApiResponse } from "@/types/api";
-import { useState } from "react";
+import type { RedirectHop } from "@shared/schema";
+import type { StreamProgress } from "@/services/api-service";
+import { isBinaryResponse, getResponseBlob, getDownloadFilename, downloadBlob } from "@/utils/binary-utils";
+import { useState, useEffect, useMemo } from "react";
 
 interface ApiResponseDisplayProps {
   /** API response data */
@@ -26,15 +32,52 @@ interface ApiResponseDisplayProps {
   error: string | null;
   /** Whether request is currently loading */
   isLoading: boolean;
+  /** Progress of a streamed response that is still being received */
+  streamProgress?: StreamProgress | null;
+  /** URL the response was fetched from, used to name downloads */
+  requestUrl?: string;
 }
 
 export function ApiResponseDisplay({ 
   response, 
   error, 
-  isLoading 
+  isLoading,
+  streamProgress,
+  requestUrl
 }: ApiResponseDisplayProps) {
   const [copied, setCopied] = useState(false);
 
+  // Streaming state - render the body as it arrives
+  if (isLoading && streamProgress) {
+    const percentage = streamProgress.totalBytes
+      ? Math.min(100, (streamProgress.receivedBytes / streamProgress.totalBytes) * 100)
+      : undefined;
+
+    return (
+      <Card className="w-full mt-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Clock className="w-5 h-5 text-blue-600 animate-pulse" />
+              <h3 className="text-lg font-semibold">Receiving Response...</h3>
+            </div>
+            <Badge variant="outline">
+              <FileText className="w-3 h-3 mr-1" />
+              {formatBytes(streamProgress.receivedBytes)}
+              {streamProgress.totalBytes ? ` / ${formatBytes(streamProgress.totalBytes)}` : ''}
+            </Badge>
+          </div>
+          {percentage !== undefined && <Progress value={percentage} className="h-2" />}
+        </CardHeader>
+        <CardContent>
+          <div className="bg-gray-50 border rounded-lg p-4 font-mono text-xs max-h-96 overflow-auto whitespace-pre-wrap break-all">
+            {streamProgress.preview || 'Waiting for data...'}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Loading state
   if (isLoading) {
     return (
@@ -115,6 +158,15 @@ export function ApiResponseDisplay({
     return <Database className="w-5 h-5 text-gray-600" />;
   };
 
+  const isBinary = isBinaryResponse(response);
+
+  const handleDownload = () => {
+    const blob = getResponseBlob(response);
+    if (blob) {
+      downloadBlob(blob, getDownloadFilename(response.headers, requestUrl));
+    }
+  };
+
   const handleCopyResponse = async () => {
     try {
       await navigator.clipboard.writeText(JSON.stringify(response, null, 2));
@@ -135,11 +187,21 @@ export function ApiResponseDisplay({
           </div>
           
           <div className="flex items-center space-x-2">
+            {isBinary && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownload}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
               onClick={handleCopyResponse}
-              disabled={!response}
+              disabled={!response || isBinary}
             >
               <Copy className="w-4 h-4 mr-2" />
               {copied ? 'Copied!' : 'Copy Response'}
@@ -176,6 +238,14 @@ export function ApiResponseDisplay({
       </CardHeader>
 
       <CardContent>
+        {/* Timing Breakdown */}
+        {response.timings && <TimingWaterfall timings={response.timings} />}
+
+        {/* Redirects followed before the final response */}
+        {response.redirects && response.redirects.length > 0 && (
+          <RedirectChain redirects={response.redirects} />
+        )}
+
         {/* Response Headers (if not empty) */}
         {Object.keys(response.headers).length > 0 && (
           <div className="mb-4">
@@ -194,7 +264,9 @@ export function ApiResponseDisplay({
         {/* Response Body */}
         <div>
           <h4 className="text-sm font-medium text-gray-700 mb-2">Response Body</h4>
-          {typeof response.data === 'object' ? (
+          {isBinary ? (
+            <BinaryPreview response={response} />
+          ) : typeof response.data === 'object' ? (
             <JsonViewer data={response.data} />
           ) : (
             <div className="bg-gray-50 border rounded-lg p-4 font-mono text-sm max-h-96 overflow-auto">
@@ -207,6 +279,81 @@ export function ApiResponseDisplay({
   );
 }
 
+/**
+ * Lists each redirect hop in order with its status, target and headers
+ */
+function RedirectChain({ redirects }: { redirects: RedirectHop[] }) {
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Redirect Chain ({redirects.length})</h4>
+      <div className="space-y-2">
+        {redirects.map((hop, index) => (
+          <details key={index} className="bg-gray-50 border rounded-lg p-2 text-xs">
+            <summary className="cursor-pointer font-mono break-all">
+              <Badge variant="outline" className="mr-2">{hop.status}</Badge>
+              {hop.url} <span className="text-gray-500">→</span> {hop.location}
+            </summary>
+            <div className="mt-2 font-mono max-h-32 overflow-auto">
+              {Object.entries(hop.headers).map(([key, value]) => (
+                <div key={key} className="mb-1">
+                  <span className="text-blue-600">{key}:</span>{' '}
+                  <span className="text-gray-800">{value}</span>
+                </div>
+              ))}
+            </div>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inline preview for binary bodies - images and PDFs render directly,
+ * anything else only offers the download button in the header
+ */
+function BinaryPreview({ response }: { response: ApiResponse }) {
+  const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const canPreview = mimeType.startsWith('image/') || mimeType === 'application/pdf';
+
+  const objectUrl = useMemo(() => {
+    if (!canPreview) return null;
+    const blob = getResponseBlob(response);
+    return blob ? URL.createObjectURL(blob) : null;
+  }, [response, canPreview]);
+
+  // Release the object URL when the response changes or the preview unmounts
+  useEffect(() => {
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [objectUrl]);
+
+  if (!objectUrl) {
+    return (
+      <div className="bg-gray-50 border rounded-lg p-4 text-sm text-gray-600">
+        Binary content ({mimeType || 'unknown type'}, {formatBytes(response.size)}) - use Download to save it
+      </div>
+    );
+  }
+
+  if (mimeType === 'application/pdf') {
+    return (
+      <iframe
+        src={objectUrl}
+        title="PDF preview"
+        className="w-full h-[600px] border rounded-lg"
+      />
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border rounded-lg p-4 flex justify-center">
+      <img src={objectUrl} alt="Response preview" className="max-h-96 max-w-full object-contain" />
+    </div>
+  );
+}
+
 /**
  * Helper function to format bytes in human readable format
  */
@@ -0,0 +1,139 @@
+/**
+ * Cookie Jar Editor Component
+ *
+ * Picks the named cookie jar a request uses and shows its cookies. Cookies
+ * upstream sets are collected into the jar by the proxy and sent with later
+ * requests that use the same jar; here they can be edited or cleared.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { useCookieJars } from "@/hooks/use-cookie-jars";
+import { cookieJarNameSchema, type StoredCookie } from "@shared/schema";
+
+interface CookieJarEditorProps {
+  /** Jar the request uses, empty for none */
+  cookieJar: string;
+  /** Request URL - new cookies default to its host */
+  url: string;
+  onCookieJarChange: (cookieJar: string) => void;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
+
+export function CookieJarEditor({ cookieJar, url, onCookieJarChange }: CookieJarEditorProps) {
+  const { jars, saveJar, clearJar, isSaving } = useCookieJars();
+  const jarName = cookieJar.trim();
+  const jar = jars.find(entry => entry.name === jarName);
+  // The proxy refuses requests naming an invalid jar, so say why up front
+  const nameError = jarName ? cookieJarNameSchema.safeParse(jarName).error?.errors[0]?.message : undefined;
+  const [draft, setDraft] = useState<StoredCookie[]>([]);
+
+  // Start over from the server copy when another jar is picked or the jar changes
+  useEffect(() => {
+    setDraft(jar?.cookies ?? []);
+  }, [jarName, jar]);
+
+  const updateCookie = (index: number, changes: Partial<StoredCookie>) => {
+    setDraft(draft.map((cookie, i) => (i === index ? { ...cookie, ...changes } : cookie)));
+  };
+
+  const addCookie = () => {
+    setDraft([
+      ...draft,
+      { name: "", value: "", domain: hostOf(url), path: "/", secure: false, httpOnly: false, hostOnly: true },
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="cookie-jar">Cookie Jar</Label>
+      <Input
+        id="cookie-jar"
+        list="cookie-jar-names"
+        value={cookieJar}
+        onChange={(e) => onCookieJarChange(e.target.value)}
+        placeholder="None - cookies are not kept between requests"
+      />
+      <datalist id="cookie-jar-names">
+        {jars.map(entry => <option key={entry.name} value={entry.name} />)}
+      </datalist>
+
+      {nameError && <p className="text-xs text-red-600">{nameError}</p>}
+
+      {jarName && !nameError && (
+        <div className="space-y-2 rounded-md border p-3">
+          {draft.length === 0 && (
+            <p className="text-xs text-gray-500">
+              No cookies yet - they are collected from the responses of requests using this jar
+            </p>
+          )}
+
+          {draft.map((cookie, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={cookie.name}
+                onChange={(e) => updateCookie(index, { name: e.target.value })}
+                placeholder="Name"
+                className="w-36 font-mono text-xs"
+              />
+              <Input
+                value={cookie.value}
+                onChange={(e) => updateCookie(index, { value: e.target.value })}
+                placeholder="Value"
+                className="flex-1 font-mono text-xs"
+              />
+              <span className="text-xs text-gray-500 truncate max-w-[10rem]" title={`${cookie.domain}${cookie.path}`}>
+                {cookie.domain}{cookie.path}
+              </span>
+              {cookie.expires !== undefined && (
+                <Badge variant="outline" title={new Date(cookie.expires).toLocaleString()}>expires</Badge>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" size="sm" onClick={addCookie}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Cookie
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => saveJar(jarName, draft.filter(cookie => cookie.name.trim() && cookie.domain))}
+              disabled={isSaving}
+            >
+              <Save className="w-4 h-4 mr-1" />
+              Save
+            </Button>
+            {jar && (
+              <Button type="button" variant="outline" size="sm" onClick={() => clearJar(jar.name)}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Clear Jar
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Identity Selector Component
+ *
+ * Picks which server-side identity the proxy authenticates as. Tokens are
+ * stored by the server; this component only ever sees masked previews.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, X } from "lucide-react";
+import { useAccessTokens } from "@/hooks/use-access-tokens";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/schema";
+
+interface IdentitySelectorProps {
+  /** Selected identity name, empty when none is chosen */
+  identity: string;
+  /** Called when another identity is chosen */
+  onIdentityChange: (identity: string) => void;
+}
+
+export function IdentitySelector({ identity, onIdentityChange }: IdentitySelectorProps) {
+  const { identities, isLoading, saveIdentity, deleteIdentity, isSaving } = useAccessTokens();
+  const { user } = useAuth();
+  // Only supervisors may change what is stored in the vault
+  const canManage = !!user && hasRole(user.role, "supervisor");
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newToken, setNewToken] = useState("");
+
+  const selected = identities.find(entry => entry.name === identity);
+
+  // Fall back to the first stored identity when none (or a removed one) is selected
+  useEffect(() => {
+    if (isLoading || selected) return;
+    const fallback = identities[0]?.name ?? "";
+    if (fallback !== identity) {
+      onIdentityChange(fallback);
+    }
+  }, [identities, identity, selected, isLoading, onIdentityChange]);
+
+  const handleSave = async () => {
+    try {
+      const summary = await saveIdentity({ name: newName.trim(), token: newToken.trim() });
+      onIdentityChange(summary.name);
+      setNewName("");
+      setNewToken("");
+      setIsAdding(false);
+    } catch {
+      // The hook already reported the failure
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="identity">Identity</Label>
+        {canManage && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsAdding(!isAdding)}
+          >
+            {isAdding ? <X className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+            {isAdding ? "Cancel" : "Add Identity"}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex space-x-2">
+        <Select value={identity} onValueChange={onIdentityChange} disabled={identities.length === 0}>
+          <SelectTrigger id="identity" className="flex-1">
+            <SelectValue placeholder={isLoading ? "Loading identities..." : "No identities stored"} />
+          </SelectTrigger>
+          <SelectContent>
+            {identities.map(entry => (
+              <SelectItem key={entry.name} value={entry.name}>
+                {entry.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && canManage && (
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => deleteIdentity(selected.name)}
+            title={`Remove ${selected.name}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex items-center space-x-2 text-xs text-gray-600">
+          <code className="font-mono">{selected.preview}</code>
+          {selected.expired ? (
+            <Badge variant="destructive">Expired</Badge>
+          ) : selected.expiresAt ? (
+            <span>expires {new Date(selected.expiresAt).toLocaleString()}</span>
+          ) : (
+            <span>no expiry</span>
+          )}
+        </div>
+      )}
+
+      {isAdding && canManage && (
+        <div className="space-y-2 rounded-md border p-3">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Identity name, e.g. support-agent"
+          />
+          <Textarea
+            value={newToken}
+            onChange={(e) => setNewToken(e.target.value)}
+            placeholder="Paste the JWT - it is stored on the server and not shown again"
+            rows={3}
+            className="font-mono text-xs"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSave}
+            disabled={isSaving || !newName.trim() || !newToken.trim()}
+          >
+            Save Identity
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
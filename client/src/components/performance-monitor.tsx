@@ -16,8 +16,25 @@ import {
   Database,
   TrendingUp,
   Eye,
-  EyeOff
+  EyeOff,
+  PauseCircle,
+  ShieldAlert
 } from "lucide-react";
+import type { ThrottleEvent } from "@/services/request-scheduler";
+import type { CircuitBreakerStatus, CircuitState } from "@/services/circuit-breaker";
+
+const THROTTLE_SOURCE_LABELS: Record<ThrottleEvent['source'], string> = {
+  'retry-after': 'Retry-After',
+  'x-ratelimit': 'X-RateLimit-Reset',
+  proxy: 'proxy rate limit',
+  backoff: 'backoff',
+};
+
+const CIRCUIT_STATE_STYLES: Record<CircuitState, string> = {
+  closed: 'bg-green-100 text-green-800',
+  open: 'bg-red-100 text-red-800',
+  'half-open': 'bg-amber-100 text-amber-800',
+};
 
 interface PerformanceMetrics {
   totalRequests: number;
@@ -45,6 +62,12 @@ interface PerformanceMonitorProps {
   showDetails?: boolean;
   /** Number of duplicate profiles detected */
   duplicateCount?: number;
+  /** Recent host pauses caused by 429/503 responses, newest first */
+  throttleEvents?: ThrottleEvent[];
+  /** Scheduler circuit breakers that are tripped or have recent failures */
+  circuitBreakers?: CircuitBreakerStatus[];
+  /** Closes one breaker, or all of them when no key is given */
+  onResetCircuitBreaker?: (key?: string) => void;
 }
 
 export function PerformanceMonitor({
@@ -52,7 +75,10 @@ export function PerformanceMonitor({
   isActive,
   onReset,
   showDetails = false,
-  duplicateCount = 0
+  duplicateCount = 0,
+  throttleEvents = [],
+  circuitBreakers = [],
+  onResetCircuitBreaker
 }: PerformanceMonitorProps) {
   const [isExpanded, setIsExpanded] = useState(showDetails);
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -112,7 +138,7 @@ export function PerformanceMonitor({
     return `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`;
   };
 
-  if (!isActive && metrics.totalRequests === 0) {
+  if (!isActive && metrics.totalRequests === 0 && throttleEvents.length === 0 && circuitBreakers.length === 0) {
     return null;
   }
 
@@ -194,6 +220,66 @@ export function PerformanceMonitor({
               <div className="text-xs text-gray-500">Remaining</div>
             </div>
           </div>
+
+          {/* Throttle Events */}
+          {throttleEvents.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <h6 className="text-sm font-medium text-amber-900 mb-2 flex items-center">
+                <PauseCircle className="w-4 h-4 mr-2" />
+                Recent Throttling
+              </h6>
+              <div className="space-y-1 text-xs text-amber-800 font-mono">
+                {throttleEvents.map((event, index) => (
+                  <div key={`${event.at}-${index}`}>
+                    {new Date(event.at).toLocaleTimeString()} {event.host === '*' ? 'all hosts' : event.host} paused{' '}
+                    {formatTime(event.waitMs)} ({event.status}, {THROTTLE_SOURCE_LABELS[event.source]})
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Circuit Breakers */}
+          {circuitBreakers.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <h6 className="text-sm font-medium text-red-900 flex items-center">
+                  <ShieldAlert className="w-4 h-4 mr-2" />
+                  Circuit Breakers
+                </h6>
+                {onResetCircuitBreaker && (
+                  <Button variant="ghost" size="sm" onClick={() => onResetCircuitBreaker()}>
+                    Reset All
+                  </Button>
+                )}
+              </div>
+              <div className="space-y-2 text-xs">
+                {circuitBreakers.map(breaker => (
+                  <div key={breaker.key} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{breaker.scope}</Badge>
+                        <span className="font-mono truncate" title={breaker.key}>{breaker.key}</span>
+                      </div>
+                      <div className="text-red-800 mt-1">
+                        {breaker.failures}/{breaker.requests} failed
+                        {breaker.openUntil && ` · probing in ${formatTime(Math.max(0, breaker.openUntil - Date.now()))}`}
+                        {breaker.lastError && ` · ${breaker.lastError}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge className={CIRCUIT_STATE_STYLES[breaker.state]}>{breaker.state}</Badge>
+                      {onResetCircuitBreaker && breaker.state !== 'closed' && (
+                        <Button variant="outline" size="sm" onClick={() => onResetCircuitBreaker(breaker.key)}>
+                          Reset
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </CardHeader>
 
@@ -0,0 +1,52 @@
+/**
+ * Rate Limit Status Component
+ *
+ * Shows how much of the proxy's rate limit budget is left for the current
+ * user and for each upstream host. Requests beyond it are refused with 429
+ * until the budget refills.
+ */
+
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Gauge } from "lucide-react";
+import { useRateLimits } from "@/hooks/use-rate-limits";
+import type { RateLimitBudget } from "@shared/schema";
+
+function BudgetRow({ label, budget }: { label: string; budget: RateLimitBudget }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-700 truncate" title={label}>{label}</span>
+        <span className="text-gray-500">
+          {budget.remaining} / {budget.capacity} • refills {budget.refillPerSecond}/s
+        </span>
+      </div>
+      <Progress value={(budget.remaining / budget.capacity) * 100} className="h-2" />
+    </div>
+  );
+}
+
+export function RateLimitStatus() {
+  const { status } = useRateLimits();
+
+  if (!status || (!status.user && status.hosts.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-4 h-4 text-gray-600" />
+          <h3 className="text-sm font-medium">Proxy Rate Limits</h3>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {status.user && <BudgetRow label={`Your budget (${status.user.key})`} budget={status.user} />}
+        {status.hosts.map(host => (
+          <BudgetRow key={host.key} label={host.key} budget={host} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
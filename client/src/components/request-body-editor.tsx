@@ -0,0 +1,177 @@
+/**
+ * Request Body Editor Component
+ *
+ * Edits the body sent with POST/PUT/PATCH/DELETE requests: JSON, a
+ * URL-encoded form, a multipart form with files, or raw text with its own
+ * content type
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fileToBase64 } from "@/utils/binary-utils";
+import type { RequestBodyField, RequestBodyType } from "@shared/schema";
+
+const BODY_TYPE_LABELS: Record<RequestBodyType, string> = {
+  json: "JSON",
+  form: "Form (URL-encoded)",
+  multipart: "Multipart form",
+  raw: "Raw",
+};
+
+interface RequestBodyEditorProps {
+  bodyType: RequestBodyType;
+  /** JSON or raw body text */
+  body: string;
+  /** Content type sent with a raw body */
+  contentType: string;
+  /** Form or multipart fields; file fields hold base64 content */
+  fields: RequestBodyField[];
+  onBodyTypeChange: (bodyType: RequestBodyType) => void;
+  onBodyChange: (body: string) => void;
+  onContentTypeChange: (contentType: string) => void;
+  onFieldsChange: (fields: RequestBodyField[]) => void;
+}
+
+export function RequestBodyEditor({
+  bodyType,
+  body,
+  contentType,
+  fields,
+  onBodyTypeChange,
+  onBodyChange,
+  onContentTypeChange,
+  onFieldsChange,
+}: RequestBodyEditorProps) {
+  const { toast } = useToast();
+  const usesFields = bodyType === "form" || bodyType === "multipart";
+
+  const updateField = (index: number, changes: Partial<RequestBodyField>) => {
+    onFieldsChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const removeField = (index: number) => {
+    onFieldsChange(fields.filter((_, i) => i !== index));
+  };
+
+  const handleFileSelect = async (index: number, file: File | undefined) => {
+    if (!file) return;
+    try {
+      updateField(index, {
+        value: await fileToBase64(file),
+        fileName: file.name,
+        contentType: file.type || undefined,
+      });
+    } catch {
+      toast({
+        title: "Could not read file",
+        description: file.name,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Request Body</h3>
+        <Select value={bodyType} onValueChange={(value) => onBodyTypeChange(value as RequestBodyType)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(BODY_TYPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {bodyType === "raw" && (
+        <div className="space-y-2">
+          <Label htmlFor="raw-content-type">Content Type</Label>
+          <Input
+            id="raw-content-type"
+            value={contentType}
+            onChange={(e) => onContentTypeChange(e.target.value)}
+            placeholder="text/plain"
+            className="font-mono text-sm"
+          />
+        </div>
+      )}
+
+      {!usesFields && (
+        <Textarea
+          value={body}
+          onChange={(e) => onBodyChange(e.target.value)}
+          placeholder={bodyType === "json" ? '{\n  "reason": "Customer requested cancellation"\n}' : "Request body"}
+          rows={6}
+          className="font-mono text-sm"
+        />
+      )}
+
+      {usesFields && (
+        <div className="space-y-2">
+          {fields.map((field, index) => {
+            const isFile = bodyType === "multipart" && field.fileName !== undefined;
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={field.name}
+                  onChange={(e) => updateField(index, { name: e.target.value })}
+                  placeholder="Name"
+                  className="w-48 font-mono text-sm"
+                />
+                {isFile ? (
+                  <div className="flex-1 flex items-center gap-2">
+                    <Input
+                      type="file"
+                      onChange={(e) => handleFileSelect(index, e.target.files?.[0])}
+                      className="text-sm"
+                    />
+                    {field.fileName && (
+                      <span className="text-xs text-gray-500 truncate" title={field.fileName}>
+                        {field.fileName}
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <Input
+                    value={field.value}
+                    onChange={(e) => updateField(index, { value: e.target.value })}
+                    placeholder="Value"
+                    className="flex-1 font-mono text-sm"
+                  />
+                )}
+                <Button variant="ghost" size="sm" onClick={() => removeField(index)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => onFieldsChange([...fields, { name: "", value: "" }])}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Field
+            </Button>
+            {bodyType === "multipart" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onFieldsChange([...fields, { name: "file", value: "", fileName: "" }])}
+              >
+                <FileUp className="w-4 h-4 mr-1" />
+                Add File
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
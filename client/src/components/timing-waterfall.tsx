@@ -0,0 +1,62 @@
+/**
+ * Timing Waterfall Component
+ *
+ * Shows the phases of an upstream request as a waterfall. Long DNS, connect
+ * or TLS bars point at the network; a long wait for the first byte points at
+ * the upstream itself.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import type { ResponseTimings } from "@shared/schema";
+
+const PHASES: Array<{ key: keyof ResponseTimings; label: string; color: string }> = [
+  { key: "blocked", label: "Queued", color: "bg-gray-400" },
+  { key: "dns", label: "DNS Lookup", color: "bg-teal-500" },
+  { key: "connect", label: "Connect", color: "bg-orange-500" },
+  { key: "tls", label: "TLS Handshake", color: "bg-purple-500" },
+  { key: "firstByte", label: "Waiting (TTFB)", color: "bg-green-500" },
+  { key: "download", label: "Download", color: "bg-blue-500" },
+];
+
+interface TimingWaterfallProps {
+  timings: ResponseTimings;
+}
+
+export function TimingWaterfall({ timings }: TimingWaterfallProps) {
+  const total = Math.max(timings.total, 0.1);
+  let offset = 0;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700">Timing</h4>
+        <div className="flex items-center gap-2">
+          {timings.reusedConnection && <Badge variant="outline">Reused connection</Badge>}
+          <span className="text-xs text-gray-500">Total {timings.total}ms</span>
+        </div>
+      </div>
+      <div className="space-y-1">
+        {PHASES.map(({ key, label, color }) => {
+          const duration = timings[key] as number;
+          const left = (offset / total) * 100;
+          offset += duration;
+
+          return (
+            <div key={key} className="flex items-center gap-2 text-xs">
+              <span className="w-28 text-gray-600">{label}</span>
+              <div className="flex-1 relative h-3 bg-gray-100 rounded">
+                {duration > 0 && (
+                  <div
+                    className={`absolute h-3 rounded ${color}`}
+                    style={{ left: `${left}%`, width: `max(${(duration / total) * 100}%, 2px)` }}
+                  />
+                )}
+              </div>
+              <span className="w-16 text-right font-mono text-gray-700">{duration}ms</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * User Menu Component
+ *
+ * Shows who is logged in and lets them log out. Supervisors also get a
+ * team dialog to create accounts and change roles, and a link to the audit log.
+ */
+
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Link } from "wouter";
+import { ClipboardList, LogOut, Users } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeam } from "@/hooks/use-team";
+import { hasRole, USER_ROLES, type UserRole } from "@shared/schema";
+
+export function UserMenu() {
+  const { user, logoutMutation, registerMutation } = useAuth();
+  const isSupervisor = !!user && hasRole(user.role, "supervisor");
+  const { members, updateRole } = useTeam(isSupervisor);
+  const [isTeamOpen, setIsTeamOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+
+  if (!user) return null;
+
+  const handleAddMember = (e: FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({ username, password, role }, {
+      onSuccess: () => {
+        setUsername("");
+        setPassword("");
+        setRole("viewer");
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center justify-end space-x-2 text-sm text-gray-600">
+      <span>Signed in as <strong>{user.username}</strong></span>
+      <Badge variant="outline">{user.role}</Badge>
+
+      {isSupervisor && (
+        <Link href="/audit">
+          <Button variant="outline" size="sm">
+            <ClipboardList className="w-4 h-4 mr-1" />
+            Audit Log
+          </Button>
+        </Link>
+      )}
+
+      {isSupervisor && (
+        <Dialog open={isTeamOpen} onOpenChange={setIsTeamOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Users className="w-4 h-4 mr-1" />
+              Team
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Team Members</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              {members.map(member => (
+                <div key={member.id} className="flex items-center justify-between">
+                  <span className="text-sm">{member.username}</span>
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => updateRole({ id: member.id, role: value as UserRole })}
+                    disabled={member.id === user.id}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <form onSubmit={handleAddMember} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="member-username">Username</Label>
+                <Input
+                  id="member-username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-password">Initial Password</Label>
+                <Input
+                  id="member-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-role">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                  <SelectTrigger id="member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                Add Member
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+      >
+        <LogOut className="w-4 h-4 mr-1" />
+        Logout
+      </Button>
+    </div>
+  );
+}
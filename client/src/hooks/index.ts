@@ -4,9 +4,12 @@
  * Central export point for all custom hooks
  */
 
+export * from './use-access-tokens';
 export * from './use-api-request';
+export * from './use-cookie-jars';
 export * from './use-bulk-processing';
 export * from './use-debug-logging';
 export * from './use-profile-collection';
+export * from './use-rate-limits';
 export * from './use-mobile';
 export * from './use-toast';
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Access Tokens Hook
+ *
+ * This hook lists the identities held in the server-side token vault and
+ * manages adding and removing them. Only masked previews reach the browser.
+ */
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AccessTokenSummary, InsertAccessToken } from "@shared/schema";
+
+const TOKENS_QUERY_KEY = ["/api/tokens"];
+
+export const useAccessTokens = () => {
+  const { toast } = useToast();
+
+  const tokensQuery = useQuery<AccessTokenSummary[]>({
+    queryKey: TOKENS_QUERY_KEY,
+  });
+
+  /**
+   * Stores a token under a name, replacing any token already saved for it
+   */
+  const saveMutation = useMutation({
+    mutationFn: async (accessToken: InsertAccessToken): Promise<AccessTokenSummary> => {
+      const res = await apiRequest("POST", "/api/tokens", accessToken);
+      return res.json();
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: TOKENS_QUERY_KEY });
+      toast({
+        title: "Identity Saved",
+        description: `Token for "${summary.name}" stored on the server`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Save Identity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/tokens/${encodeURIComponent(name)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TOKENS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Remove Identity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    identities: tokensQuery.data ?? [],
+    isLoading: tokensQuery.isLoading,
+    saveIdentity: saveMutation.mutateAsync,
+    deleteIdentity: deleteMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+};
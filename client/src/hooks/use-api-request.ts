@@ -4,15 +4,20 @@
  * This hook manages the core API request state and functionality
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { ApiService, BrandsForLessService } from "@/services/api-service";
+import { ApiService, BrandsForLessService, type StreamProgress } from "@/services/api-service";
+import { ProxyTimeoutError, isAbortError } from "@/services/proxy-errors";
+import { COOKIE_JARS_QUERY_KEY } from "@/hooks/use-cookie-jars";
 import { constructUrl } from "@/utils/url-utils";
 import { DEFAULT_CONFIG, API_ENDPOINTS } from "@/config/api-endpoints";
 import { getShippingAddressFromOrders } from "@/utils/currency-utils";
 import type { ApiRequest, ApiResponse } from "@/types/api";
-import type { CustomerProfile } from "@shared/schema";
+import type { CustomerProfile, RedirectMode, RequestBodyField, RequestBodyType } from "@shared/schema";
+
+const BODYLESS_METHODS = ["GET", "HEAD", "OPTIONS"];
 
 
 export const useApiRequest = () => {
@@ -21,25 +26,67 @@ export const useApiRequest = () => {
   // Core request state
   const [url, setUrl] = useState<string>(DEFAULT_CONFIG.DEFAULT_URL);
   const [method, setMethod] = useState<string>("GET");
-  const [token, setToken] = useState<string>(DEFAULT_CONFIG.DEFAULT_TOKEN);
+  const [identity, setIdentity] = useState<string>("");
+
+  // Request body, sent for methods other than GET/HEAD/OPTIONS
+  const [bodyType, setBodyType] = useState<RequestBodyType>("json");
+  const [body, setBody] = useState<string>("");
+  const [rawContentType, setRawContentType] = useState<string>("text/plain");
+  const [bodyFields, setBodyFields] = useState<RequestBodyField[]>([]);
   const [response, setResponse] = useState<ApiResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   
+  // Streaming mode state
+  const [streamResponse, setStreamResponse] = useState(false);
+  const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
+  const lastStreamUpdate = useRef(0);
+
+  // Per-request timeout (empty means the proxy default) and the abort handle of the in-flight request
+  const [timeoutSeconds, setTimeoutSeconds] = useState<string>("");
+  const [redirectMode, setRedirectMode] = useState<RedirectMode>("follow");
+  // Named cookie jar the proxy keeps cookies in between requests, empty for none
+  const [cookieJar, setCookieJar] = useState<string>("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
   // Endpoint management
   const [selectedEndpoint, setSelectedEndpoint] = useState<string>("");
   const [parameters, setParameters] = useState<Record<string, string>>({});
   const [showCustomUrl, setShowCustomUrl] = useState(false); // Changed to false so URL updates automatically
 
+  /**
+   * Body part of the request for the selected body type. Unnamed fields and
+   * file fields without a chosen file are left out.
+   */
+  const buildRequestBody = (): Partial<ApiRequest> => {
+    if (BODYLESS_METHODS.includes(method)) return {};
+
+    if (bodyType === "form" || bodyType === "multipart") {
+      const fields = bodyFields.filter(field => field.name.trim() && field.fileName !== "");
+      return { bodyType, fields };
+    }
+
+    return {
+      bodyType,
+      body: body || undefined,
+      ...(bodyType === "raw" && { contentType: rawContentType || undefined }),
+    };
+  };
+
   /**
    * Main API request mutation
    */
   const requestMutation = useMutation({
     mutationFn: async (requestOverrides?: Partial<ApiRequest>) => {
+      const parsedTimeout = parseFloat(timeoutSeconds);
       const request: ApiRequest = {
         url,
         method: method as any,
-        token,
+        identity: identity || undefined,
         headers: {},
+        ...buildRequestBody(),
+        ...(parsedTimeout > 0 && { timeoutMs: Math.round(parsedTimeout * 1000) }),
+        ...(redirectMode !== "follow" && { redirect: redirectMode }),
+        ...(cookieJar.trim() && { cookieJar: cookieJar.trim() }),
         ...requestOverrides
       };
 
@@ -47,11 +94,36 @@ export const useApiRequest = () => {
         throw new Error("Invalid request configuration");
       }
 
-      return ApiService.makeRequest(request);
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const options = { signal: abortController.signal };
+
+      if (streamResponse) {
+        setStreamProgress({ receivedBytes: 0, preview: "" });
+        lastStreamUpdate.current = 0;
+
+        return ApiService.makeStreamingRequest(request, (progress) => {
+          // Throttle progress renders to keep large downloads from freezing the UI
+          const now = Date.now();
+          if (now - lastStreamUpdate.current >= 250) {
+            lastStreamUpdate.current = now;
+            setStreamProgress(progress);
+          }
+        }, options);
+      }
+
+      return ApiService.makeRequest(request, options);
     },
     onSuccess: (data) => {
       setResponse(data);
       setError(null);
+      setStreamProgress(null);
+
+      // Upstream may have changed the jar's cookies
+      if (cookieJar.trim()) {
+        queryClient.invalidateQueries({ queryKey: COOKIE_JARS_QUERY_KEY });
+      }
       
       toast({
         title: "Request Successful",
@@ -59,12 +131,26 @@ export const useApiRequest = () => {
       });
     },
     onError: (error: Error) => {
+      setStreamProgress(null);
+
+      if (isAbortError(error)) {
+        setError("Request cancelled");
+        setResponse(null);
+        toast({
+          title: "Request Cancelled",
+          description: "The request was cancelled before the upstream replied",
+        });
+        return;
+      }
+
       setError(error.message);
       setResponse(null);
       
       toast({
-        title: "Request Failed",
-        description: error.message,
+        title: error instanceof ProxyTimeoutError ? "Request Timed Out" : "Request Failed",
+        description: error instanceof ProxyTimeoutError
+          ? `${error.message} - the upstream may be slow, try again or raise the timeout`
+          : error.message,
         variant: "destructive",
       });
     }
@@ -75,7 +161,7 @@ export const useApiRequest = () => {
    */
   const profileFetchMutation = useMutation({
     mutationFn: async (customerId: string): Promise<CustomerProfile | null> => {
-      const profileData = await BrandsForLessService.fetchCustomerProfile(customerId, token);
+      const profileData = await BrandsForLessService.fetchCustomerProfile(customerId, identity);
       
       // Return null if no valid data found - this allows caller to handle appropriately
       if (!profileData) {
@@ -162,11 +248,17 @@ export const useApiRequest = () => {
   const resetForm = useCallback(() => {
     setUrl(DEFAULT_CONFIG.DEFAULT_URL);
     setMethod("GET");
-    setToken(DEFAULT_CONFIG.DEFAULT_TOKEN);
     setResponse(null);
     setError(null);
     setSelectedEndpoint("");
     setParameters({});
+    setTimeoutSeconds("");
+    setRedirectMode("follow");
+    setCookieJar("");
+    setBodyType("json");
+    setBody("");
+    setRawContentType("text/plain");
+    setBodyFields([]);
     setShowCustomUrl(false); // Changed to false to match the initial state
   }, []);
 
@@ -177,6 +269,14 @@ export const useApiRequest = () => {
     requestMutation.mutate(overrides);
   }, [requestMutation]);
 
+  /**
+   * Cancels the in-flight single request, which also aborts the proxy's upstream call
+   */
+  const cancelRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  }, []);
+
   /**
    * Fetches a complete customer profile - returns null if no valid data found
    */
@@ -188,23 +288,41 @@ export const useApiRequest = () => {
     // State
     url,
     method,
-    token,
+    identity,
     response,
     error,
     selectedEndpoint,
     parameters,
     showCustomUrl,
+    streamResponse,
+    streamProgress,
+    timeoutSeconds,
+    redirectMode,
+    cookieJar,
+    bodyType,
+    body,
+    rawContentType,
+    bodyFields,
     
     // State setters
     setUrl,
     setMethod,
-    setToken,
+    setIdentity,
     setSelectedEndpoint,
     setParameters,
     setShowCustomUrl,
+    setStreamResponse,
+    setTimeoutSeconds,
+    setRedirectMode,
+    setCookieJar,
+    setBodyType,
+    setBody,
+    setRawContentType,
+    setBodyFields,
     
     // Actions
     makeRequest,
+    cancelRequest,
     fetchFullProfile,
     resetForm,
     updateUrlFromEndpoint,
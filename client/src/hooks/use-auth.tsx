@@ -0,0 +1,134 @@
+/**
+ * Authentication Hook
+ *
+ * Provides the logged-in team member and the login, logout and account
+ * creation actions to the whole app
+ */
+
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { InsertUser, PublicUser } from "@shared/schema";
+
+const USER_QUERY_KEY = ["/api/user"];
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+/**
+ * Turns an apiRequest error ("401: {json}") into the server's message
+ */
+function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return res.json();
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(USER_QUERY_KEY, loggedInUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return res.json();
+    },
+    onSuccess: (createdUser) => {
+      // Creating an account for a teammate keeps the current session
+      if (!user) {
+        queryClient.setQueryData(USER_QUERY_KEY, createdUser);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      }
+      toast({
+        title: "Account Created",
+        description: `Account "${createdUser.username}" is ready to use`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Create Account",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(USER_QUERY_KEY, null);
+      // Drop everything fetched as the previous user
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== USER_QUERY_KEY[0] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
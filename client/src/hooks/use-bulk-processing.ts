@@ -6,12 +6,20 @@
  * - Intelligent rate limiting and backoff
  * - Progress tracking and duplicate detection
  * - Error handling and retry mechanisms
+ * 
+ * The work itself runs in the bulk processing worker so large runs do not
+ * block the UI; this hook turns the worker's messages into state, including
+ * the state of the request scheduler the worker sends the calls through.
  */
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { BrandsForLessService } from "@/services/api-service";
 import type { CustomerProfile } from "@shared/schema";
+import type { ThrottleEvent } from "@/services/request-scheduler";
+import type { BulkSchedulerStatus, BulkWorkerEvent, BulkWorkerRequest } from "@/workers/bulk-processing-protocol";
+
+// Most recent throttle events kept for the monitor
+const MAX_THROTTLE_EVENTS = 10;
 
 interface BulkProcessingState {
   isProcessing: boolean;
@@ -68,17 +76,48 @@ export const useBulkProcessing = () => {
     checkpoint: null
   });
 
-  const abortController = useRef<AbortController | null>(null);
+  const [schedulerStatus, setSchedulerStatus] = useState<BulkSchedulerStatus | null>(null);
+  const [throttleEvents, setThrottleEvents] = useState<ThrottleEvent[]>([]);
+
+  const worker = useRef<Worker | null>(null);
+  // Run whose messages update state; 0 when none is
+  const activeRunId = useRef(0);
+  const lastRunId = useRef(0);
   const processingTimes = useRef<number[]>([]);
-  const shouldStop = useRef(false);
-  const shouldPause = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      worker.current?.terminate();
+      worker.current = null;
+    };
+  }, []);
+
+  const getWorker = (): Worker => {
+    if (!worker.current) {
+      worker.current = new Worker(new URL('../workers/bulk-processing.worker.ts', import.meta.url), { type: 'module' });
+      // Scheduler messages belong to the worker rather than a run
+      worker.current.addEventListener('message', (event: MessageEvent<BulkWorkerEvent>) => {
+        const message = event.data;
+        if (message.type === 'scheduler') {
+          setSchedulerStatus(prev => (JSON.stringify(prev) === JSON.stringify(message.status) ? prev : message.status));
+        } else if (message.type === 'throttle') {
+          setThrottleEvents(prev => [message.event, ...prev].slice(0, MAX_THROTTLE_EVENTS));
+        }
+      });
+    }
+    return worker.current;
+  };
+
+  const sendToWorker = (request: BulkWorkerRequest) => {
+    getWorker().postMessage(request);
+  };
 
   /**
    * Process multiple customer IDs in optimized batches
    */
   const processBulkCustomerIds = useCallback(async (
     customerIds: string[],
-    token: string,
+    identity: string,
     existingProfiles: CustomerProfile[],
     options: Partial<BulkProcessingOptions & { 
       preservedStartTime?: number;
@@ -97,17 +136,15 @@ export const useBulkProcessing = () => {
       ...options
     };
 
-    // Initialize processing state and reset ALL flags
+    // Initialize processing state
     const startTime = options.preservedStartTime || Date.now();
-    const totalBatches = Math.ceil(customerIds.length / config.batchSize);
     const originalTotalCount = options.originalTotalCount || customerIds.length;
     const preservedProcessedCount = options.preservedProcessedCount || 0;
-    
-    // Reset ALL flags and create new abort controller for this processing session
-    shouldStop.current = false;
-    shouldPause.current = false;
-    processingTimes.current = [];
-    abortController.current = new AbortController();
+    // Resumed runs keep the batch times restored from the checkpoint
+    const previousBatchTimes = preservedProcessedCount > 0 ? processingTimes.current : [];
+
+    const runId = ++lastRunId.current;
+    activeRunId.current = runId;
 
     const initialState: BulkProcessingState = {
       isProcessing: true,
@@ -131,468 +168,193 @@ export const useBulkProcessing = () => {
     // Immediately call onProgress with initial state to update performance monitoring
     config.onProgress(initialState);
 
-    config.onDebugLog('info', '🚀 Bulk Processing Started', {
-      totalCustomers: customerIds.length,
-      batchSize: config.batchSize,
-      totalBatches,
-      existingProfiles: existingProfiles.length
-    });
-
-    const results: CustomerProfile[] = [];
-    const existingCustomerIds = new Set(existingProfiles.map(p => p.customerId));
-
-    try {
-      // Process in batches for optimal performance
-      for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-        // Check for pause request at the start of each batch (but skip on resume)
-        if ((shouldPause.current || abortController.current?.signal.aborted) && batchIndex > 0) {
-          const remainingBatchIndex = batchIndex;
-          const remainingIds = customerIds.slice(remainingBatchIndex * config.batchSize);
-          
-          // Create checkpoint for smooth resume (including performance monitor state)
-          const checkpoint = {
-            processedCustomerIds: customerIds.slice(0, remainingBatchIndex * config.batchSize),
-            remainingCustomerIds: remainingIds,
-            collectedProfiles: results,
-            // Preserve performance monitor state for accurate resume
-            performanceState: {
-              startTime: startTime,
-              processedSoFar: results.length,
-              processingTimes: [...processingTimes.current]
-            }
-          };
-          
-          setProcessingState(prev => ({
-            ...prev,
-            isProcessing: false,
-            isPaused: true,
-            checkpoint
-          }));
-          
-          config.onDebugLog('info', '⏸️ Processing Paused at Checkpoint', {
-            processedSoFar: results.length,
-            remainingItems: remainingIds.length,
-            batchIndex,
-            checkpointCreated: true,
-            reason: shouldPause.current ? 'User pause requested' : 'Abort signal triggered'
-          });
-          
-          return results; // EXIT with current results
-        }
-        
-        // Check if processing should be stopped (but not if we just started)
-        if ((abortController.current?.signal.aborted || shouldStop.current) && batchIndex > 0) {
-          throw new Error('Processing stopped by user');
-        }
+    let currentState = initialState;
+    const bulkWorker = getWorker();
 
-        const batchStart = batchIndex * config.batchSize;
-        const batchEnd = Math.min(batchStart + config.batchSize, customerIds.length);
-        const batchIds = customerIds.slice(batchStart, batchEnd);
-
-        config.onDebugLog('info', `📦 Processing Batch ${batchIndex + 1}/${totalBatches}`, {
-          batchSize: batchIds.length,
-          customerIds: batchIds,
-          progress: `${batchStart + 1}-${batchEnd} of ${customerIds.length}`
-        });
-
-        const batchStartTime = Date.now();
-
-        // Process batch concurrently (5-10 requests at once) with abort monitoring
-        let batchResults;
-        try {
-          batchResults = await processBatchConcurrently(
-            batchIds,
-            token,
-            existingCustomerIds,
-            config,
-            abortController.current.signal
-          );
-          
-          // Check for pause/stop after batch completes (but not on first batch of resume)
-          if ((shouldPause.current || abortController.current?.signal.aborted) && batchIndex > 0) {
-            config.onDebugLog('info', '⏸️ Batch completed but pausing requested', {
-              batchJustCompleted: batchIndex + 1,
-              nextBatch: batchIndex + 2,
-              totalBatches
-            });
-            
-            // Update results with this batch and create checkpoint
-            results.push(...batchResults.profiles);
-            
-            const remainingIds = customerIds.slice((batchIndex + 1) * config.batchSize);
-            const checkpoint = {
-              processedCustomerIds: customerIds.slice(0, (batchIndex + 1) * config.batchSize),
-              remainingCustomerIds: remainingIds,
-              collectedProfiles: results,
-              // Preserve performance monitor state for accurate resume
-              performanceState: {
-                startTime: startTime,
-                processedSoFar: results.length,
-                processingTimes: [...processingTimes.current]
-              }
-            };
-            
-            setProcessingState(prev => ({
-              ...prev,
-              isProcessing: false,
-              isPaused: true,
-              processedItems: results.length,
-              checkpoint
-            }));
-            
-            return results; // EXIT with updated results
-          }
-          
-          // Continue normal processing
-          const batchProcessingTime = Date.now() - batchStartTime;
-          processingTimes.current.push(batchProcessingTime);
-
-          // Update results and state
-          results.push(...batchResults.profiles);
-
-          const currentState: BulkProcessingState = {
-            ...processingState,
-            isProcessing: true,
-            isPaused: false,
-            totalItems: originalTotalCount, // Ensure total stays consistent
-            processedItems: preservedProcessedCount + batchEnd,
-            successfulItems: preservedProcessedCount + results.length,
-            failedItems: batchResults?.failures?.length || 0,
-            duplicateItems: batchResults?.duplicates || 0,
-            currentBatch: Math.ceil((preservedProcessedCount + batchEnd) / config.batchSize),
-            averageProcessingTime: calculateAverageProcessingTime(),
-            estimatedTimeRemaining: calculateEstimatedTimeRemaining(batchIndex + 1, totalBatches),
-            errors: [...processingState.errors, ...(batchResults?.failures || [])],
-            checkpoint: null // Clear any previous checkpoint since we're actively processing
-          };
-
-          setProcessingState(currentState);
-          config.onProgress(currentState);
-
-          config.onDebugLog('success', `✅ Batch ${batchIndex + 1} Completed`, {
-            processedInBatch: batchIds.length,
-            successfulInBatch: batchResults?.profiles?.length || 0,
-            failedInBatch: batchResults?.failures?.length || 0,
-            duplicatesInBatch: batchResults?.duplicates || 0,
-            batchTime: batchProcessingTime,
-            totalProgress: `${batchEnd}/${customerIds.length}`
-          });
-        } catch (error) {
-          if (error instanceof Error && error.message.includes('aborted')) {
-            config.onDebugLog('info', '⏸️ Batch processing aborted - creating checkpoint', {
-              batchIndex: batchIndex + 1,
-              currentResults: results.length
-            });
-            
-            // Create checkpoint even on abort (including performance monitor state)
-            const remainingIds = customerIds.slice(batchIndex * config.batchSize);
-            const checkpoint = {
-              processedCustomerIds: customerIds.slice(0, batchIndex * config.batchSize),
-              remainingCustomerIds: remainingIds,
-              collectedProfiles: results,
-              // Preserve performance monitor state for accurate resume
-              performanceState: {
-                startTime: startTime,
-                processedSoFar: results.length,
-                processingTimes: [...processingTimes.current]
-              }
-            };
-            
-            setProcessingState(prev => ({
-              ...prev,
-              isProcessing: false,
-              isPaused: true,
-              processedItems: results.length,
-              checkpoint
-            }));
-            
-            return results; // Return current results on abort
-          }
-          
-          throw error; // Re-throw non-abort errors
-        }
-
-        // Small delay between batches to respect rate limits
-        if (batchIndex < totalBatches - 1 && config.delayBetweenBatches > 0) {
-          await new Promise(resolve => setTimeout(resolve, config.delayBetweenBatches));
-        }
-      }
-
-      const totalProcessingTime = Date.now() - startTime;
-      const finalState: BulkProcessingState = {
-        ...processingState,
-        isProcessing: false,
-        processedItems: preservedProcessedCount + customerIds.length,
-        successfulItems: preservedProcessedCount + results.length,
-        estimatedTimeRemaining: 0
+    return new Promise<CustomerProfile[]>((resolve, reject) => {
+      const cleanup = () => {
+        bulkWorker.removeEventListener('message', onMessage);
+        bulkWorker.removeEventListener('error', onError);
       };
 
-      setProcessingState(finalState);
-      config.onProgress(finalState);
-
-      config.onDebugLog('success', '🎉 Bulk Processing Completed', {
-        totalProcessed: customerIds.length,
-        successful: results.length,
-        failed: finalState.failedItems,
-        duplicates: finalState.duplicateItems,
-        totalTime: totalProcessingTime,
-        averagePerProfile: totalProcessingTime / customerIds.length,
-        profilesPerSecond: (results.length / (totalProcessingTime / 1000)).toFixed(2)
-      });
-
-      toast({
-        title: "Bulk Processing Complete",
-        description: `Successfully processed ${results.length} profiles in ${(totalProcessingTime / 1000).toFixed(1)}s`,
-      });
-
-      return results;
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        if (activeRunId.current === runId) activeRunId.current = 0;
+        setProcessingState(prev => ({ ...prev, isProcessing: false }));
+        reject(new Error(event.message || 'Bulk processing worker failed to start'));
+      };
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Don't show error for intentional stops
-      if (errorMessage.includes('Processing stopped by user')) {
-        config.onDebugLog('info', '⏹️ Processing stopped by user request', {
-          processedSoFar: results.length,
-          totalItems: customerIds.length
-        });
-        
-        // Create a checkpoint with remaining items so user can resume
-        const processedCount = results.length;
-        const remainingIds = customerIds.slice(processedCount);
-        
-        const checkpoint = {
-          processedCustomerIds: customerIds.slice(0, processedCount),
-          remainingCustomerIds: remainingIds,
-          collectedProfiles: results,
-          // Preserve performance monitor state for accurate resume
-          performanceState: {
-            startTime: startTime,
-            processedSoFar: results.length,
-            processingTimes: [...processingTimes.current]
+      const onMessage = (event: MessageEvent<BulkWorkerEvent>) => {
+        const message = event.data;
+        if (!('runId' in message) || message.runId !== runId) return;
+        // Reset discards the run: it still settles, but leaves state alone
+        const isCurrent = activeRunId.current === runId;
+
+        switch (message.type) {
+          case 'log':
+            if (isCurrent) config.onDebugLog(message.level, message.message, message.data);
+            break;
+
+          case 'profile':
+            if (isCurrent) config.onProfileProcessed(message.profile, false);
+            break;
+
+          case 'progress': {
+            if (!isCurrent) break;
+            const { progress } = message;
+            currentState = {
+              ...currentState,
+              isProcessing: true,
+              isPaused: false,
+              processedItems: preservedProcessedCount + progress.processedItems,
+              successfulItems: preservedProcessedCount + progress.successfulItems,
+              failedItems: progress.failedItems,
+              duplicateItems: progress.duplicateItems,
+              currentBatch: Math.ceil((preservedProcessedCount + progress.processedItems) / config.batchSize),
+              averageProcessingTime: progress.averageBatchTime,
+              estimatedTimeRemaining: progress.estimatedTimeRemaining,
+              errors: progress.errors,
+              checkpoint: null
+            };
+            setProcessingState(currentState);
+            config.onProgress(currentState);
+            break;
           }
-        };
-        
-        setProcessingState(prev => ({
-          ...prev,
-          isProcessing: false,
-          isPaused: true, // Allow resuming
-          processedItems: processedCount,
-          checkpoint: checkpoint // Ensure checkpoint is preserved
-        }));
-        
-        return results; // Return what we've processed so far
-      }
-      
-      config.onDebugLog('error', '❌ Bulk Processing Failed', {
-        error: errorMessage,
-        processedSoFar: processingState.processedItems,
-        totalItems: customerIds.length
-      });
-
-      setProcessingState(prev => ({
-        ...prev,
-        isProcessing: false
-      }));
 
-      toast({
-        title: "Bulk Processing Failed",
-        description: errorMessage,
-        variant: "destructive",
-      });
-
-      throw error;
-    }
-  }, [processingState, toast]);
-
-  /**
-   * Process a single batch with concurrent requests (5-10 at once)
-   */
-  const processBatchConcurrently = async (
-    batchIds: string[],
-    token: string,
-    existingCustomerIds: Set<string>,
-    config: BulkProcessingOptions,
-    abortSignal: AbortSignal
-  ): Promise<{
-    profiles: CustomerProfile[];
-    failures: Array<{ customerId: string; error: string; attempt: number }>;
-    duplicates: number;
-  }> => {
-    const profiles: CustomerProfile[] = [];
-    const failures: Array<{ customerId: string; error: string; attempt: number }> = [];
-    let duplicates = 0;
-
-    // Process all items in the batch concurrently with abort checking
-    const promises = batchIds.map(async (customerId) => {
-      // Check for abort signal at the start of each request
-      if (abortSignal.aborted) {
-        throw new Error('Processing aborted by user');
-      }
-
-      // Check for existing profile (duplicate detection)
-      const isDuplicate = existingCustomerIds.has(customerId);
-      if (isDuplicate) {
-        duplicates++;
-        config.onDebugLog('info', '🔍 Duplicate Detected', {
-          customerId,
-          action: 'skipped'
-        });
-        return null;
-      }
-
-      // Retry logic for individual profile
-      for (let attempt = 1; attempt <= config.retryAttempts; attempt++) {
-        // Check for abort before each attempt
-        if (abortSignal.aborted) {
-          throw new Error('Processing aborted by user');
-        }
-
-        try {
-          config.onDebugLog('info', `🔄 Processing Customer ${customerId}`, {
-            attempt,
-            maxAttempts: config.retryAttempts
-          });
-
-          const profile = await BrandsForLessService.fetchCustomerProfile(customerId, token);
-          
-          // Critical: Check abort signal immediately after API call completes
-          if (abortSignal.aborted) {
-            throw new Error('Processing aborted by user');
-          }
-          
-          if (profile) {
-            profiles.push(profile);
-            existingCustomerIds.add(customerId); // Prevent duplicates within same batch
-            
-            config.onProfileProcessed(profile, false);
-            config.onDebugLog('success', `✅ Profile Fetched: ${customerId}`, {
-              customerName: profile.fullName,
-              totalOrders: profile.totalOrdersCount,
-              totalValue: profile.totalPurchasesAmount
-            });
-            
-            return profile;
-          } else {
-            // Skip customers with no valid data - don't treat as error
-            config.onDebugLog('info', `⏭️ Skipped: ${customerId}`, {
-              reason: 'No valid customer data found'
-            });
-            return null;
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          
-          // If it's an abort error, don't retry - just throw it up immediately
-          if (errorMessage.includes('aborted') || abortSignal.aborted) {
-            throw new Error('Processing aborted by user');
-          }
-          
-          config.onDebugLog('warning', `⚠️ Attempt ${attempt} Failed: ${customerId}`, {
-            error: errorMessage,
-            willRetry: attempt < config.retryAttempts
-          });
-
-          if (attempt === config.retryAttempts) {
-            failures.push({
-              customerId,
-              error: errorMessage,
-              attempt
-            });
-            
-            config.onDebugLog('error', `❌ All Attempts Failed: ${customerId}`, {
-              finalError: errorMessage,
-              totalAttempts: attempt
-            });
-          } else {
-            // Check abort before retry delay
-            if (abortSignal.aborted) {
-              throw new Error('Processing aborted by user');
+          case 'finished': {
+            cleanup();
+            processingTimes.current = message.batchTimes;
+            if (!isCurrent) {
+              resolve(message.profiles);
+              break;
             }
-            
-            // Exponential backoff for retries
-            const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            
-            // Check abort after delay
-            if (abortSignal.aborted) {
-              throw new Error('Processing aborted by user');
+            activeRunId.current = 0;
+
+            if (message.outcome === 'completed') {
+              const totalProcessingTime = Date.now() - startTime;
+              const finalState: BulkProcessingState = {
+                ...currentState,
+                isProcessing: false,
+                processedItems: preservedProcessedCount + customerIds.length,
+                successfulItems: preservedProcessedCount + message.profiles.length,
+                estimatedTimeRemaining: 0
+              };
+
+              setProcessingState(finalState);
+              config.onProgress(finalState);
+
+              config.onDebugLog('success', '🎉 Bulk Processing Completed', {
+                totalProcessed: customerIds.length,
+                successful: message.profiles.length,
+                failed: finalState.failedItems,
+                duplicates: finalState.duplicateItems,
+                totalTime: totalProcessingTime,
+                averagePerProfile: totalProcessingTime / customerIds.length,
+                profilesPerSecond: (message.profiles.length / (totalProcessingTime / 1000)).toFixed(2)
+              });
+
+              toast({
+                title: "Bulk Processing Complete",
+                description: `Successfully processed ${message.profiles.length} profiles in ${(totalProcessingTime / 1000).toFixed(1)}s`,
+              });
+            } else {
+              // Paused or stopped - keep a checkpoint so processing can be resumed
+              const checkpoint = {
+                processedCustomerIds: message.processedCustomerIds,
+                remainingCustomerIds: message.remainingCustomerIds,
+                collectedProfiles: message.profiles,
+                // Preserve performance monitor state for accurate resume
+                performanceState: {
+                  startTime,
+                  processedSoFar: preservedProcessedCount + message.processedCustomerIds.length,
+                  processingTimes: [...message.batchTimes]
+                }
+              };
+
+              config.onDebugLog('info', message.outcome === 'paused'
+                ? '⏸️ Processing Paused at Checkpoint'
+                : '⏹️ Processing stopped by user request', {
+                processedSoFar: message.profiles.length,
+                remainingItems: message.remainingCustomerIds.length,
+                checkpointCreated: true
+              });
+
+              setProcessingState(prev => ({
+                ...prev,
+                isProcessing: false,
+                isPaused: true,
+                processedItems: checkpoint.performanceState.processedSoFar,
+                checkpoint
+              }));
             }
+
+            resolve(message.profiles);
+            break;
           }
-        }
-      }
-      return null;
-    });
 
-    try {
-      // Wait for all concurrent requests to complete but check abort signal frequently
-      const results = await Promise.allSettled(promises);
-      
-      // If aborted during processing, throw immediately
-      if (abortSignal.aborted) {
-        throw new Error('Processing aborted by user');
-      }
-      
-      // Filter out nulls and failed promises - we only want actual profiles
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled' && result.value === null) {
-          // This was a skipped customer (no valid data), don't count as failure
-          config.onDebugLog('info', `⏭️ Customer skipped (no valid data): ${batchIds[index]}`);
-        } else if (result.status === 'rejected') {
-          const errorMessage = result.reason instanceof Error ? result.reason.message : 'Unknown error';
-          // Check if it's an abort error - if so, propagate it up
-          if (errorMessage.includes('aborted')) {
-            throw new Error('Processing aborted by user');
+          case 'failed': {
+            cleanup();
+            if (isCurrent) {
+              activeRunId.current = 0;
+              config.onDebugLog('error', '❌ Bulk Processing Failed', {
+                error: message.message,
+                processedSoFar: currentState.processedItems,
+                totalItems: customerIds.length
+              });
+
+              setProcessingState(prev => ({
+                ...prev,
+                isProcessing: false
+              }));
+
+              toast({
+                title: "Bulk Processing Failed",
+                description: message.message,
+                variant: "destructive",
+              });
+            }
+            reject(new Error(message.message));
+            break;
           }
         }
-      });
+      };
 
-      return { profiles, failures, duplicates };
-    } catch (error) {
-      // If it's an abort error, make sure to clean up and throw it properly
-      if (error instanceof Error && error.message.includes('aborted')) {
-        config.onDebugLog('info', '⏸️ Batch Processing Aborted', {
-          batchSize: batchIds.length,
-          reason: 'User requested pause'
-        });
-        throw error;
-      }
-      
-      // For other errors, log and re-throw
-      config.onDebugLog('error', '❌ Batch Processing Failed', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        batchSize: batchIds.length
+      bulkWorker.addEventListener('message', onMessage);
+      bulkWorker.addEventListener('error', onError);
+      sendToWorker({
+        type: 'start',
+        runId,
+        customerIds,
+        identity,
+        existingCustomerIds: existingProfiles.map(profile => profile.customerId),
+        settings: {
+          batchSize: config.batchSize,
+          retryAttempts: config.retryAttempts,
+          delayBetweenBatches: config.delayBetweenBatches
+        },
+        previousBatchTimes
       });
-      throw error;
-    }
-  };
+    });
+  }, [toast]);
 
-  /**
-   * Calculate average processing time per profile
-   */
-  const calculateAverageProcessingTime = (): number => {
-    if (processingTimes.current.length === 0) return 0;
-    const total = processingTimes.current.reduce((sum, time) => sum + time, 0);
-    return total / processingTimes.current.length;
-  };
+  const clearThrottleEvents = useCallback(() => {
+    setThrottleEvents([]);
+  }, []);
 
   /**
-   * Calculate estimated time remaining
+   * Close one of the scheduler's circuit breakers, or all of them when no key is given
    */
-  const calculateEstimatedTimeRemaining = (currentBatch: number, totalBatches: number): number => {
-    if (processingTimes.current.length === 0) return 0;
-    
-    const averageBatchTime = calculateAverageProcessingTime();
-    const remainingBatches = totalBatches - currentBatch;
-    
-    return remainingBatches * averageBatchTime;
-  };
+  const resetCircuitBreaker = useCallback((key?: string) => {
+    sendToWorker({ type: 'reset-circuit-breaker', key });
+  }, []);
 
   /**
    * Smoothly pause ongoing bulk processing and create checkpoint
    */
   const pauseProcessing = useCallback(() => {
-    shouldPause.current = true;
+    if (activeRunId.current) {
+      sendToWorker({ type: 'pause', runId: activeRunId.current });
+    }
     
     setProcessingState(prev => ({
       ...prev,
@@ -610,7 +372,7 @@ export const useBulkProcessing = () => {
    * Resume processing from the last checkpoint
    */
   const resumeProcessing = useCallback(async (
-    token: string,
+    identity: string,
     existingProfiles: CustomerProfile[],
     options: Partial<BulkProcessingOptions & {
       newItemsToProcess?: string[]; // Allow passing new items to process instead of checkpoint remaining
@@ -632,10 +394,6 @@ export const useBulkProcessing = () => {
       isPaused: false
     }));
 
-    // Reset all stop and pause flags before resuming (synchronously)
-    shouldPause.current = false;
-    shouldStop.current = false;
-    
     try {
       // Resume from checkpoint with preserved performance state
       const checkpoint = processingState.checkpoint;
@@ -669,7 +427,7 @@ export const useBulkProcessing = () => {
       
       const results = await processBulkCustomerIds(
         itemsToProcess,
-        token,
+        identity,
         [...existingProfiles, ...checkpoint.collectedProfiles],
         {
           ...options,
@@ -696,12 +454,10 @@ export const useBulkProcessing = () => {
    * Completely reset processing state and clear checkpoints
    */
   const resetProcessing = useCallback(() => {
-    shouldStop.current = false;
-    shouldPause.current = false;
-    
-    if (abortController.current) {
-      abortController.current.abort();
-      abortController.current = null;
+    // Cancel the run and stop listening to it
+    if (activeRunId.current) {
+      sendToWorker({ type: 'stop', runId: activeRunId.current });
+      activeRunId.current = 0;
     }
     
     setProcessingState({
@@ -722,6 +478,7 @@ export const useBulkProcessing = () => {
     });
     
     processingTimes.current = [];
+    setThrottleEvents([]);
   }, []);
 
   /**
@@ -752,9 +509,9 @@ export const useBulkProcessing = () => {
    * Creates a checkpoint so processing can be resumed later
    */
   const stopProcessing = useCallback(() => {
-    shouldStop.current = true;
-    if (abortController.current) {
-      abortController.current.abort();
+    // Cancels the calls in flight; the worker reports back with the checkpoint data
+    if (activeRunId.current) {
+      sendToWorker({ type: 'stop', runId: activeRunId.current });
     }
     
     // Don't immediately update state here - let the processing loop handle checkpoint creation
@@ -768,6 +525,10 @@ export const useBulkProcessing = () => {
 
   return {
     processingState,
+    schedulerStatus,
+    throttleEvents,
+    clearThrottleEvents,
+    resetCircuitBreaker,
     processBulkCustomerIds,
     pauseProcessing,
     stopProcessing,
@@ -0,0 +1,68 @@
+/**
+ * Cookie Jars Hook
+ *
+ * This hook lists the named cookie jars of the current session and saves or
+ * clears them. Proxy calls that name a jar fill it on the server.
+ */
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CookieJarSummary, StoredCookie } from "@shared/schema";
+
+export const COOKIE_JARS_QUERY_KEY = ["/api/cookie-jars"];
+
+export const useCookieJars = () => {
+  const { toast } = useToast();
+
+  const jarsQuery = useQuery<CookieJarSummary[]>({
+    queryKey: COOKIE_JARS_QUERY_KEY,
+  });
+
+  /**
+   * Replaces the cookies of a jar, creating the jar if needed
+   */
+  const saveMutation = useMutation({
+    mutationFn: async ({ name, cookies }: CookieJarSummary): Promise<CookieJarSummary> => {
+      const res = await apiRequest("PUT", `/api/cookie-jars/${encodeURIComponent(name)}`, { cookies });
+      return res.json();
+    },
+    onSuccess: (jar) => {
+      queryClient.invalidateQueries({ queryKey: COOKIE_JARS_QUERY_KEY });
+      toast({
+        title: "Cookie Jar Saved",
+        description: `"${jar.name}" holds ${jar.cookies.length} cookie(s)`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Save Cookie Jar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/cookie-jars/${encodeURIComponent(name)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: COOKIE_JARS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Clear Cookie Jar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    jars: jarsQuery.data ?? [],
+    saveJar: (name: string, cookies: StoredCookie[]) => saveMutation.mutate({ name, cookies }),
+    clearJar: clearMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+};
@@ -5,6 +5,8 @@
  */
 
 import { useState, useCallback, useRef } from "react";
+import { ApiService } from "@/services/api-service";
+import type { RequestCacheStats } from "@/services/request-cache";
 
 interface PerformanceMetrics {
   totalRequests: number;
@@ -38,7 +40,20 @@ export const usePerformanceMonitoringV2 = () => {
 
   const [isMonitoring, setIsMonitoring] = useState(false);
   const responseTimes = useRef<number[]>([]);
-  const cacheStats = useRef({ hits: 0, misses: 0 });
+  // ApiService cache counters when monitoring started; the hit rate covers requests since then
+  const cacheBaseline = useRef<RequestCacheStats>(ApiService.getCacheStats());
+
+  /**
+   * Share of GETs since monitoring started that were answered from the
+   * cache or by joining an identical request in flight
+   */
+  const getCacheHitRate = () => {
+    const stats = ApiService.getCacheStats();
+    const baseline = cacheBaseline.current;
+    const hits = stats.hits - baseline.hits + stats.coalesced - baseline.coalesced;
+    const total = hits + stats.misses - baseline.misses;
+    return total > 0 ? (hits / total) * 100 : 0;
+  };
 
   /**
    * Start monitoring performance with proper total count
@@ -63,7 +78,7 @@ export const usePerformanceMonitoringV2 = () => {
     });
     
     responseTimes.current = [];
-    cacheStats.current = { hits: 0, misses: 0 };
+    cacheBaseline.current = ApiService.getCacheStats();
   }, []);
 
   /**
@@ -97,10 +112,7 @@ export const usePerformanceMonitoringV2 = () => {
       const profilesPerSecond = elapsedTime > 0 && bulkState.processedItems > 0 ? 
         Math.round((bulkState.processedItems / (elapsedTime / 1000)) * 100) / 100 : 0;
 
-      const totalCacheRequests = cacheStats.current.hits + cacheStats.current.misses;
-      const cacheHitRate = totalCacheRequests > 0
-        ? (cacheStats.current.hits / totalCacheRequests) * 100
-        : 0;
+      const cacheHitRate = getCacheHitRate();
 
       return {
         ...prev,
@@ -122,8 +134,7 @@ export const usePerformanceMonitoringV2 = () => {
   const recordRequest = useCallback((
     success: boolean,
     responseTime: number,
-    dataSize: number = 0,
-    fromCache: boolean = false
+    dataSize: number = 0
   ) => {
     responseTimes.current.push(responseTime);
     
@@ -132,12 +143,6 @@ export const usePerformanceMonitoringV2 = () => {
       responseTimes.current = responseTimes.current.slice(-250);
     }
     
-    if (fromCache) {
-      cacheStats.current.hits++;
-    } else {
-      cacheStats.current.misses++;
-    }
-
     setMetrics(prev => {
       const now = Date.now();
       const completedRequests = prev.completedRequests + 1;
@@ -149,10 +154,7 @@ export const usePerformanceMonitoringV2 = () => {
         ? responseTimes.current.reduce((sum, time) => sum + time, 0) / responseTimes.current.length
         : 0;
       
-      const totalCacheRequests = cacheStats.current.hits + cacheStats.current.misses;
-      const cacheHitRate = totalCacheRequests > 0
-        ? (cacheStats.current.hits / totalCacheRequests) * 100
-        : 0;
+      const cacheHitRate = getCacheHitRate();
 
       const elapsedTime = now - prev.startTime;
       const profilesPerSecond = elapsedTime > 0 ? 
@@ -194,7 +196,7 @@ export const usePerformanceMonitoringV2 = () => {
       activeConnections: 0
     });
     responseTimes.current = [];
-    cacheStats.current = { hits: 0, misses: 0 };
+    cacheBaseline.current = ApiService.getCacheStats();
     setIsMonitoring(false);
   }, []);
 
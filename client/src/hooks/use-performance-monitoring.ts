@@ -1,10 +1,16 @@
 /**
  * Performance Monitoring Hook
  * 
- * This hook tracks performance metrics for API operations
+ * This hook tracks performance metrics for API operations. The cache hit
+ * rate covers this page's ApiService cache and, through `bulkCacheStats`,
+ * the bulk worker's.
  */
 
 import { useState, useCallback, useRef } from "react";
+import { ApiService } from "@/services/api-service";
+import type { RequestCacheStats } from "@/services/request-cache";
+
+const NO_CACHE_STATS: RequestCacheStats = { hits: 0, coalesced: 0, misses: 0, entries: 0 };
 
 interface PerformanceMetrics {
   totalRequests: number;
@@ -21,7 +27,7 @@ interface PerformanceMetrics {
   activeConnections: number;
 }
 
-export const usePerformanceMonitoring = () => {
+export const usePerformanceMonitoring = (bulkCacheStats?: RequestCacheStats) => {
   const [metrics, setMetrics] = useState<PerformanceMetrics>({
     totalRequests: 0,
     completedRequests: 0,
@@ -38,7 +44,27 @@ export const usePerformanceMonitoring = () => {
 
   const [isMonitoring, setIsMonitoring] = useState(false);
   const responseTimes = useRef<number[]>([]);
-  const cacheStats = useRef({ hits: 0, misses: 0 });
+  // Cache counters when monitoring started; the hit rate covers requests since then
+  const cacheBaseline = useRef<RequestCacheStats>(ApiService.getCacheStats());
+  const bulkCacheBaseline = useRef<RequestCacheStats>(bulkCacheStats ?? NO_CACHE_STATS);
+  const latestBulkCacheStats = useRef(bulkCacheStats);
+  latestBulkCacheStats.current = bulkCacheStats;
+
+  /**
+   * Share of GETs since monitoring started that were answered from a cache
+   * or by joining an identical request in flight
+   */
+  const getCacheHitRate = () => {
+    const stats = ApiService.getCacheStats();
+    const bulkStats = latestBulkCacheStats.current ?? NO_CACHE_STATS;
+    const count = (key: 'hits' | 'coalesced' | 'misses') =>
+      stats[key] - cacheBaseline.current[key] + bulkStats[key] - bulkCacheBaseline.current[key];
+
+    const hits = count('hits') + count('coalesced');
+    const total = hits + count('misses');
+    return total > 0 ? (hits / total) * 100 : 0;
+  };
+
   const lastUpdateTime = useRef<number>(0);
 
   /**
@@ -73,7 +99,8 @@ export const usePerformanceMonitoring = () => {
     
     // Restore processing times for accurate averages
     responseTimes.current = preservedState?.processingTimes || [];
-    cacheStats.current = { hits: 0, misses: 0 };
+    cacheBaseline.current = ApiService.getCacheStats();
+    bulkCacheBaseline.current = latestBulkCacheStats.current ?? NO_CACHE_STATS;
   }, []);
 
   /**
@@ -113,11 +140,7 @@ export const usePerformanceMonitoring = () => {
       const profilesPerSecond = elapsedTime > 0 && bulkState.processedItems > 0 ? 
         Math.round((bulkState.processedItems / (elapsedTime / 1000)) * 100) / 100 : 0;
 
-      // Calculate cache hit rate
-      const totalCacheRequests = cacheStats.current.hits + cacheStats.current.misses;
-      const cacheHitRate = totalCacheRequests > 0
-        ? (cacheStats.current.hits / totalCacheRequests) * 100
-        : prev.cacheHitRate;
+      const cacheHitRate = getCacheHitRate();
 
       // Use the bulk state's totalItems as the authoritative total
       // Only ensure it's never less than what we've already processed
@@ -146,8 +169,7 @@ export const usePerformanceMonitoring = () => {
   const recordRequest = useCallback((
     success: boolean,
     responseTime: number,
-    dataSize: number = 0,
-    fromCache: boolean = false
+    dataSize: number = 0
   ) => {
     // Always update internal counters
     responseTimes.current.push(responseTime);
@@ -157,12 +179,6 @@ export const usePerformanceMonitoring = () => {
       responseTimes.current = responseTimes.current.slice(-500);
     }
     
-    if (fromCache) {
-      cacheStats.current.hits++;
-    } else {
-      cacheStats.current.misses++;
-    }
-
     // Throttle UI updates for performance
     const now = Date.now();
     if (now - lastUpdateTime.current < 100) { // Update at most every 100ms for individual requests
@@ -180,10 +196,7 @@ export const usePerformanceMonitoring = () => {
         ? responseTimes.current.reduce((sum, time) => sum + time, 0) / responseTimes.current.length
         : 0;
       
-      const totalCacheRequests = cacheStats.current.hits + cacheStats.current.misses;
-      const cacheHitRate = totalCacheRequests > 0
-        ? (cacheStats.current.hits / totalCacheRequests) * 100
-        : 0;
+      const cacheHitRate = getCacheHitRate();
 
       const elapsedTime = now - prev.startTime;
       const profilesPerSecond = elapsedTime > 0 ? Math.round((completedRequests / (elapsedTime / 1000)) * 100) / 100 : 0;
@@ -223,22 +236,11 @@ export const usePerformanceMonitoring = () => {
       activeConnections: 0
     });
     responseTimes.current = [];
-    cacheStats.current = { hits: 0, misses: 0 };
+    cacheBaseline.current = ApiService.getCacheStats();
+    bulkCacheBaseline.current = latestBulkCacheStats.current ?? NO_CACHE_STATS;
     setIsMonitoring(false);
   }, []);
 
-  /**
-   * Update cache statistics manually
-   */
-  const updateCacheStats = useCallback(() => {
-    setMetrics(prev => ({
-      ...prev,
-      cacheHitRate: (cacheStats.current.hits + cacheStats.current.misses) > 0 
-        ? (cacheStats.current.hits / (cacheStats.current.hits + cacheStats.current.misses)) * 100 
-        : 0
-    }));
-  }, []);
-
   /**
    * Update total requests when new items are added during a paused state
    */
@@ -258,7 +260,6 @@ export const usePerformanceMonitoring = () => {
     recordRequest,
     updateMetrics,
     resetMetrics,
-    updateCacheStats,
     updateTotalRequests
   };
 };
\ No newline at end of file
@@ -0,0 +1,26 @@
+/**
+ * Rate Limits Hook
+ *
+ * Polls the proxy's remaining rate limit budgets: the logged-in user's own
+ * and that of each upstream host, which all users share.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import type { RateLimitStatus } from "@shared/schema";
+
+export const RATE_LIMITS_QUERY_KEY = ["/api/rate-limits"];
+
+// Buckets refill continuously, so keep the numbers fresh
+const POLL_INTERVAL_MS = 2000;
+
+export const useRateLimits = () => {
+  const rateLimitsQuery = useQuery<RateLimitStatus>({
+    queryKey: RATE_LIMITS_QUERY_KEY,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  return {
+    status: rateLimitsQuery.data ?? null,
+    isLoading: rateLimitsQuery.isLoading,
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * Team Hook
+ *
+ * Lists team members and changes their roles. Only supervisors can use it;
+ * pass enabled = false for everyone else to skip the request.
+ */
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PublicUser, UserRole } from "@shared/schema";
+
+const USERS_QUERY_KEY = ["/api/users"];
+
+export const useTeam = (enabled: boolean) => {
+  const { toast } = useToast();
+
+  const usersQuery = useQuery<PublicUser[]>({
+    queryKey: USERS_QUERY_KEY,
+    enabled,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }): Promise<PublicUser> => {
+      const res = await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Change Role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    members: usersQuery.data ?? [],
+    isLoading: usersQuery.isLoading,
+    updateRole: roleMutation.mutate,
+  };
+};
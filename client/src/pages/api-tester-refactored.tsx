@@ -21,6 +21,8 @@ import { ApiResponseDisplay } from "@/components/api-response-display";
 import { BulkResultsPanel } from "@/components/bulk-results-panel";
 import { DebugPanel } from "@/components/debug-panel";
 import { PerformanceMonitor } from "@/components/performance-monitor";
+import { RateLimitStatus } from "@/components/rate-limit-status";
+import { UserMenu } from "@/components/user-menu";
 import { Button } from "@/components/ui/button";
 
 // Features
@@ -38,19 +40,37 @@ export default function ApiTesterRefactored() {
   const {
     url,
     method,
-    token,
+    identity,
     response,
     error,
     selectedEndpoint,
     parameters,
     showCustomUrl,
+    streamResponse,
+    streamProgress,
+    timeoutSeconds,
+    redirectMode,
+    cookieJar,
+    bodyType,
+    body,
+    rawContentType,
+    bodyFields,
     setUrl,
     setMethod,
-    setToken,
+    setIdentity,
     setSelectedEndpoint,
     setParameters,
     setShowCustomUrl,
+    setStreamResponse,
+    setTimeoutSeconds,
+    setRedirectMode,
+    setCookieJar,
+    setBodyType,
+    setBody,
+    setRawContentType,
+    setBodyFields,
     makeRequest,
+    cancelRequest,
     fetchFullProfile,
     resetForm,
     updateUrlFromEndpoint,
@@ -75,6 +95,11 @@ export default function ApiTesterRefactored() {
   // Bulk processing with new professional system
   const {
     processingState,
+    // Host pauses of the worker's scheduler, which bulk calls go through
+    throttleEvents,
+    clearThrottleEvents,
+    schedulerStatus,
+    resetCircuitBreaker,
     processBulkCustomerIds,
     pauseProcessing,
     stopProcessing,
@@ -110,7 +135,7 @@ export default function ApiTesterRefactored() {
     updateMetrics,
     resetMetrics,
     updateTotalRequests
-  } = usePerformanceMonitoring();
+  } = usePerformanceMonitoring(schedulerStatus?.cacheStats);
 
   // Local state for bulk mode
   const [bulkMode, setBulkMode] = useState(false);
@@ -123,11 +148,11 @@ export default function ApiTesterRefactored() {
       const result = await operation();
       const responseTime = Date.now() - startTime;
       const dataSize = JSON.stringify(result || '').length;
-      recordRequest(true, responseTime, dataSize, false);
+      recordRequest(true, responseTime, dataSize);
       return result;
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      recordRequest(false, responseTime, 0, false);
+      recordRequest(false, responseTime, 0);
       throw error;
     }
   };
@@ -199,7 +224,7 @@ export default function ApiTesterRefactored() {
       
       console.log('[Resume Fix] Processed IDs:', processedIds.size, 'Current input:', currentValues.length, 'Remaining to process:', remainingFromInput.length);
       
-      resumeProcessing(token, collectedProfiles, {
+      resumeProcessing(identity, collectedProfiles, {
         batchSize: 6,
         maxConcurrent: 6,
         retryAttempts: 3,
@@ -234,7 +259,7 @@ export default function ApiTesterRefactored() {
     if (!bulkMode) {
       // Single request mode
       startMonitoring(1);
-      addDebugLog('request', 'Single API Request', { url, method, token });
+      addDebugLog('request', 'Single API Request', { url, method, identity });
       
       const currentEndpoint = API_ENDPOINTS.find(ep => ep.id === selectedEndpoint);
       
@@ -325,10 +350,10 @@ export default function ApiTesterRefactored() {
 
   // Handle file import - fetch actual customer data instead of creating placeholder profiles
   const handleFileImport = async (customerIds: string[]) => {
-    if (!token) {
+    if (!identity) {
       toast({
         title: "Authentication Required",
-        description: "Please provide an authentication token to fetch customer data",
+        description: "Please select an identity to fetch customer data",
         variant: "destructive",
       });
       return;
@@ -380,10 +405,10 @@ export default function ApiTesterRefactored() {
 
   // Enhanced bulk processing function using the new professional system
   const handleBulkProcessing = async (customerIds: string[]) => {
-    if (!token) {
+    if (!identity) {
       toast({
         title: "Authentication Required",
-        description: "Please provide an authentication token",
+        description: "Please select an identity",
         variant: "destructive",
       });
       return;
@@ -441,7 +466,7 @@ export default function ApiTesterRefactored() {
     try {
       const results = await processBulkCustomerIds(
         newCustomerIds,
-        token,
+        identity,
         collectedProfiles,
         {
           batchSize: 6,
@@ -523,6 +548,8 @@ export default function ApiTesterRefactored() {
 
   return (
     <div className="container mx-auto p-6 space-y-6">
+      <UserMenu />
+
       {/* Header */}
       <div className="text-center py-6">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">
@@ -535,7 +562,7 @@ export default function ApiTesterRefactored() {
       <ApiRequestForm
         url={url}
         method={method}
-        token={token}
+        identity={identity}
         selectedEndpoint={selectedEndpoint}
         parameters={parameters}
         showCustomUrl={showCustomUrl}
@@ -545,14 +572,31 @@ export default function ApiTesterRefactored() {
         isProcessing={isProcessing}
         isPaused={isPaused}
         hasCheckpoint={hasCheckpoint}
+        streamResponse={streamResponse}
+        timeoutSeconds={timeoutSeconds}
+        redirectMode={redirectMode}
+        cookieJar={cookieJar}
+        bodyType={bodyType}
+        body={body}
+        rawContentType={rawContentType}
+        bodyFields={bodyFields}
         onUrlChange={setUrl}
         onMethodChange={setMethod}
-        onTokenChange={setToken}
+        onIdentityChange={setIdentity}
         onEndpointChange={setSelectedEndpoint}
         onParametersChange={setParameters}
         onShowCustomUrlToggle={setShowCustomUrl}
         onBulkModeToggle={setBulkMode}
         onBulkInputChange={setBulkInput}
+        onStreamResponseToggle={setStreamResponse}
+        onTimeoutChange={setTimeoutSeconds}
+        onRedirectModeChange={setRedirectMode}
+        onCookieJarChange={setCookieJar}
+        onBodyTypeChange={setBodyType}
+        onBodyChange={setBody}
+        onRawContentTypeChange={setRawContentType}
+        onBodyFieldsChange={setBodyFields}
+        onCancel={cancelRequest}
         onSubmit={handleSubmit}
         onReset={resetForm}
       />
@@ -562,6 +606,8 @@ export default function ApiTesterRefactored() {
         response={response}
         error={error}
         isLoading={isLoading}
+        streamProgress={streamProgress}
+        requestUrl={url}
       />
 
       {/* Bulk Results Display - shows processing status and checkpoints */}
@@ -623,13 +669,22 @@ export default function ApiTesterRefactored() {
         onClearLogs={clearDebugLogs}
       />
 
+      {/* Proxy Rate Limit Budgets */}
+      <RateLimitStatus />
+
       {/* Performance Monitor */}
       <PerformanceMonitor
         metrics={metrics}
         isActive={isMonitoring}
-        onReset={resetMetrics}
+        onReset={() => {
+          resetMetrics();
+          clearThrottleEvents();
+        }}
         showDetails={bulkMode}
         duplicateCount={duplicateCount}
+        throttleEvents={throttleEvents}
+        circuitBreakers={schedulerStatus?.circuitBreakers}
+        onResetCircuitBreaker={resetCircuitBreaker}
       />
 
       {/* Upload Dialog */}
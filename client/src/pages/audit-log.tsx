@@ -0,0 +1,162 @@
+/**
+ * Audit Log Page
+ *
+ * Lets supervisors review every mutating request sent through the proxy,
+ * filter it and export the result as CSV
+ */
+
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { buildAuditUrl, exportAuditToCSV } from "@/utils/audit-utils";
+import { downloadFile } from "@/utils/export-utils";
+import type { AuditEntry, AuditQuery } from "@shared/schema";
+
+const ALL_METHODS = "all";
+const AUDITED_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+export default function AuditLogPage() {
+  const [method, setMethod] = useState(ALL_METHODS);
+  const [username, setUsername] = useState("");
+  const [search, setSearch] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const filters: AuditQuery = {
+    method: method === ALL_METHODS ? undefined : method,
+    username: username.trim() || undefined,
+    search: search.trim() || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+  };
+  const auditUrl = buildAuditUrl(filters);
+
+  const { data: entries = [], isLoading, error } = useQuery<AuditEntry[]>({
+    queryKey: [auditUrl],
+    staleTime: 0,
+  });
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(exportAuditToCSV(entries), `audit-log-${stamp}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <Link href="/">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Panel
+          </Button>
+        </Link>
+        <Button onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-method">Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger id="audit-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_METHODS}>All methods</SelectItem>
+                  {AUDITED_METHODS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-user">User</Label>
+              <Input id="audit-user" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-search">Customer, Order or URL</Label>
+              <Input id="audit-search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="e.g. A235841600001-1" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error.message}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 py-8 text-center">No audited requests match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Request</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{entry.username}</TableCell>
+                    <TableCell className="max-w-md">
+                      <div className="font-mono text-xs break-all">
+                        <Badge variant="outline" className="mr-2">{entry.method}</Badge>
+                        {entry.url}
+                      </div>
+                      {entry.body && (
+                        <div className="font-mono text-xs text-gray-500 truncate" title={entry.body}>
+                          {entry.body}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.customerId ?? "-"}</TableCell>
+                    <TableCell>{entry.orderId ?? "-"}</TableCell>
+                    <TableCell>
+                      {entry.upstreamStatus !== null ? (
+                        <Badge variant={entry.upstreamStatus < 400 ? "secondary" : "destructive"}>
+                          {entry.upstreamStatus}
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive">{entry.errorCode ?? "failed"}</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BrandsForLessService } from "./api-service";
+import { ProxyRequestError, UpstreamThrottleError } from "./proxy-errors";
+import { professionalScheduler, type ProxyCallBody } from "./request-scheduler";
+
+type Answer = { status: number; data?: unknown } | { proxyStatus: number; payload: unknown };
+
+// Scheduled calls run on fake time and reach the same stubbed proxy as direct ones
+const { clock, proxy } = await vi.hoisted(async () => {
+  const { FakeClock } = await import("./fake-clock");
+  return {
+    clock: new FakeClock(),
+    proxy: { respond: (_body: ProxyCallBody): Response => new Response(null, { status: 500 }) },
+  };
+});
+
+vi.mock("./request-scheduler", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./request-scheduler")>();
+  return {
+    ...actual,
+    professionalScheduler: new actual.ProfessionalRequestScheduler(
+      { maxConcurrentRequests: 10, requestsPerSecond: 1000, retryDelay: 1000, maxRetryDelay: 30000 },
+      { clock, transport: async body => proxy.respond(body) },
+    ),
+  };
+});
+
+/**
+ * Stubs fetch and the scheduler's transport with a /api/proxy that answers
+ * by upstream path. Returns the upstream URLs called, in order.
+ */
+const stubProxy = (answer: (url: URL) => Answer) => {
+  const calls: string[] = [];
+  proxy.respond = body => {
+    calls.push(body.url);
+    const result = answer(new URL(body.url));
+    if ('proxyStatus' in result) {
+      return new Response(JSON.stringify(result.payload), { status: result.proxyStatus });
+    }
+    return new Response(JSON.stringify({ status: result.status, statusText: "", headers: {}, data: result.data ?? {} }));
+  };
+  vi.stubGlobal('fetch', vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) =>
+    proxy.respond(JSON.parse(String(init?.body)))));
+  return calls;
+};
+
+describe("BrandsForLessService.fetchCustomerProfile", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    BrandsForLessService.clearCache();
+    // Host pauses and breaker outcomes must not leak into the next test
+    professionalScheduler.reset();
+  });
+
+  it("fails with the throttle instead of returning a partial profile when upstream answers 429", async () => {
+    stubProxy(url => url.pathname.endsWith("/address")
+      ? { status: 200, data: [{ firstname: "Ada", lastname: "Lovelace", email: "ada@example.com" }] }
+      : { status: 429, data: { message: "Too many requests" } });
+
+    const profile = BrandsForLessService.fetchCustomerProfile("1932179", "support");
+
+    await expect(profile).rejects.toBeInstanceOf(UpstreamThrottleError);
+    await expect(profile).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("fails when the proxy's own rate limit refuses a step", async () => {
+    stubProxy(url => url.pathname.endsWith("/address")
+      ? { status: 200, data: [{ firstname: "Ada", lastname: "Lovelace" }] }
+      : { proxyStatus: 429, payload: { message: "Rate limit exceeded", code: 'rate_limited', details: { retryAfterMs: 200 } } });
+
+    const profile = BrandsForLessService.fetchCustomerProfile("1932179", "support");
+
+    await expect(profile).rejects.toBeInstanceOf(ProxyRequestError);
+    await expect(profile).rejects.toMatchObject({ code: 'rate_limited' });
+  });
+
+  it("waits out a 429 and retries when the calls go through the scheduler", async () => {
+    let throttled = false;
+    const calls = stubProxy(url => {
+      if (url.pathname.endsWith("/address") && !throttled) {
+        throttled = true;
+        return { status: 429, data: { message: "Too many requests" } };
+      }
+      return url.pathname.endsWith("/address")
+        ? { status: 200, data: [{ firstname: "Ada", lastname: "Lovelace" }] }
+        : { status: 404 };
+    });
+
+    const profile = BrandsForLessService.fetchCustomerProfile("1932179", "support", { scheduled: true });
+    await clock.advance(30000);
+
+    await expect(profile).resolves.toMatchObject({ fullName: "Ada Lovelace" });
+    expect(calls.filter(url => url.includes("/address"))).toHaveLength(2);
+  });
+
+  it("still treats other failed steps as missing data", async () => {
+    stubProxy(url => url.pathname.endsWith("/address")
+      ? { status: 200, data: [{ firstname: "Ada", lastname: "Lovelace" }] }
+      : { status: 404, data: { message: "Not found" } });
+
+    await expect(BrandsForLessService.fetchCustomerProfile("1932179", "support"))
+      .resolves.toMatchObject({ customerId: "1932179", fullName: "Ada Lovelace", latestOrders: [] });
+  });
+});
@@ -6,28 +6,156 @@
  */
 
 import { apiRequest } from "@/lib/queryClient";
-import type { ApiRequest, ApiResponse } from "@shared/schema";
+import {
+  getResponseEncoding,
+  type ApiRequest,
+  type ApiResponse,
+  type ApiBatchResult,
+  type ResponseTimings,
+} from "@shared/schema";
 import { professionalScheduler } from "./request-scheduler";
+import { UpstreamThrottleError, toProxyError, createProxyError, isThrottleError } from "./proxy-errors";
+import { getRequestCacheKey, requestCache, type RequestCacheStats } from "./request-cache";
+
+/**
+ * Options shared by the single request methods
+ */
+export interface RequestOptions {
+  /** Aborts the request (and the proxy's upstream call) when fired */
+  signal?: AbortSignal;
+  /** Answer GETs from a cached response up to this old, and cache successful ones */
+  cacheTtlMs?: number;
+  /**
+   * Send through the request scheduler, which paces calls and waits out
+   * 429/503 answers before retrying. Only the URL, method, identity, token,
+   * headers and timeout are sent, so this suits plain GETs.
+   */
+  scheduled?: boolean;
+}
+
+/**
+ * Progress snapshot reported while a streamed response is being read
+ */
+export interface StreamProgress {
+  /** Bytes received so far */
+  receivedBytes: number;
+  /** Expected body size, when the proxy could report a Content-Length */
+  totalBytes?: number;
+  /** Text decoded so far, capped to keep re-renders cheap */
+  preview: string;
+}
+
+// Maximum number of characters kept in StreamProgress.preview
+const STREAM_PREVIEW_LIMIT = 64 * 1024;
+
+// Largest number of requests the proxy accepts in one /api/proxy/batch call
+const BATCH_REQUEST_LIMIT = 200;
+
+// How long fetchCustomerProfile reuses order and user lookups, for bulk inputs that overlap
+const PROFILE_CACHE_TTL_MS = 60000;
+
+/**
+ * Profile steps treat a failed call as missing data, except when we were
+ * throttled: a profile with throttled steps must fail, not pass as complete
+ */
+const rethrowIfThrottled = (error: unknown) => {
+  if (isThrottleError(error)) throw error;
+};
+
+/**
+ * Completes the timings a streamed response reports up to the first byte
+ * with the download time measured while reading the body
+ *
+ * @param header - x-proxy-timings header value, if the proxy sent one
+ * @param downloadMs - Time spent reading the body
+ * @returns Full timings, or undefined without a header
+ */
+function withDownloadTiming(header: string | null, downloadMs: number): ResponseTimings | undefined {
+  if (!header) return undefined;
+  try {
+    const timings = JSON.parse(header) as ResponseTimings;
+    const download = Math.round(downloadMs * 10) / 10;
+    return { ...timings, download, total: Math.round((timings.total + download) * 10) / 10 };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Options for server-side batch execution
+ */
+export interface BatchRequestOptions extends RequestOptions {
+  /** Upstream calls the server runs at once (1-16, server default 6) */
+  concurrency?: number;
+  /** Called as each result arrives; switches the reply to NDJSON streaming */
+  onResult?: (result: ApiBatchResult) => void;
+}
 
 /**
  * Main API service class for handling HTTP requests through the backend proxy
  */
 export class ApiService {
   /**
-   * Makes a single API request through the backend proxy
+   * Makes a single API request through the backend proxy. Identical GETs in
+   * flight at the same time share one proxy call; with `cacheTtlMs` recent
+   * successful responses are reused as well.
    * 
    * @param request - API request configuration
+   * @param options - Optional abort signal and cache TTL
    * @returns Promise resolving to API response
-   * @throws Error if request fails
+   * @throws ProxyRequestError if the proxy rejects the request, ProxyTimeoutError on upstream timeout
    */
-  static async makeRequest(request: ApiRequest): Promise<ApiResponse> {
+  static async makeRequest(request: ApiRequest, options: RequestOptions = {}): Promise<ApiResponse> {
+    const cacheKey = getRequestCacheKey(request);
+    if (!cacheKey) {
+      return this.sendRequest(request, options.signal, options.scheduled);
+    }
+
+    if (options.cacheTtlMs) {
+      const cached = requestCache.get(cacheKey, options.cacheTtlMs);
+      if (cached) return cached;
+    }
+
+    const response = await requestCache.share(
+      cacheKey,
+      signal => this.sendRequest(request, signal, options.scheduled),
+      options.signal
+    );
+    if (options.cacheTtlMs && response.status >= 200 && response.status < 300) {
+      requestCache.set(cacheKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Hits, coalesced joins and misses of the GET request cache
+   */
+  static getCacheStats(): RequestCacheStats {
+    return requestCache.getStats();
+  }
+
+  static clearCache() {
+    requestCache.clear();
+  }
+
+  private static async sendRequest(request: ApiRequest, signal?: AbortSignal, scheduled?: boolean): Promise<ApiResponse> {
+    if (scheduled) {
+      return professionalScheduler.scheduleRequest<ApiResponse>(request.url, request.method, {
+        identity: request.identity,
+        token: request.token,
+        headers: request.headers,
+        timeoutMs: request.timeoutMs,
+        signal
+      });
+    }
+
     const startTime = performance.now();
     const requestId = Math.random().toString(36).substr(2, 9);
     
 
     
     try {
-      const response = await apiRequest("POST", "/api/proxy", request);
+      const response = await apiRequest("POST", "/api/proxy", request, signal);
       const responseData = await response.json();
       const endTime = performance.now();
       const clientTime = Math.round(endTime - startTime);
@@ -41,29 +169,206 @@ export class ApiService {
       
 
       
-      throw new Error(`API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toProxyError(error);
+    }
+  }
+
+  /**
+   * Makes an API request in streaming mode, reading the upstream body as it
+   * arrives instead of waiting for the proxy to buffer it
+   * 
+   * @param request - API request configuration
+   * @param onProgress - Optional callback invoked as chunks arrive
+   * @param options - Optional abort signal
+   * @returns Promise resolving to API response with the real byte count
+   * @throws ProxyRequestError if the proxy rejects the request, ProxyTimeoutError on upstream timeout
+   */
+  static async makeStreamingRequest(
+    request: ApiRequest,
+    onProgress?: (progress: StreamProgress) => void,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    const startTime = performance.now();
+
+    try {
+      const response = await apiRequest("POST", "/api/proxy", { ...request, stream: true }, options.signal);
+
+      const contentType = response.headers.get("content-type") || "";
+      let encoding = getResponseEncoding(contentType);
+      const isBinary = encoding === "base64";
+      const contentLength = response.headers.get("content-length");
+      const totalBytes = contentLength ? parseInt(contentLength, 10) : undefined;
+      const chunks: Uint8Array[] = [];
+      const decoder = new TextDecoder();
+      const downloadStart = performance.now();
+      let receivedBytes = 0;
+      let preview = "";
+
+      if (response.body) {
+        const reader = response.body.getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          chunks.push(value);
+          receivedBytes += value.byteLength;
+          if (!isBinary && preview.length < STREAM_PREVIEW_LIMIT) {
+            preview += decoder.decode(value, { stream: true });
+          }
+          onProgress?.({ receivedBytes, totalBytes, preview: preview.slice(0, STREAM_PREVIEW_LIMIT) });
+        }
+      }
+
+      let data: any;
+      if (isBinary) {
+        // Binary bodies stay as a Blob so previews and downloads get the exact bytes
+        data = new Blob(chunks, { type: contentType });
+        encoding = "blob";
+      } else {
+        const body = new Uint8Array(receivedBytes);
+        let offset = 0;
+        for (const chunk of chunks) {
+          body.set(chunk, offset);
+          offset += chunk.byteLength;
+        }
+
+        data = new TextDecoder().decode(body);
+        if (encoding === "json") {
+          try {
+            data = data.length > 0 ? JSON.parse(data) : data;
+          } catch {
+            // Leave mislabelled bodies as text
+            encoding = "text";
+          }
+        }
+      }
+
+      const redirectsHeader = response.headers.get("x-proxy-redirects");
+      return {
+        status: parseInt(response.headers.get("x-proxy-status") || String(response.status), 10),
+        statusText: decodeURIComponent(response.headers.get("x-proxy-status-text") || response.statusText),
+        data,
+        headers: JSON.parse(decodeURIComponent(response.headers.get("x-proxy-upstream-headers") || "%7B%7D")),
+        responseTime: Math.round(performance.now() - startTime),
+        size: receivedBytes,
+        encoding,
+        timings: withDownloadTiming(response.headers.get("x-proxy-timings"), performance.now() - downloadStart),
+        redirects: redirectsHeader ? JSON.parse(decodeURIComponent(redirectsHeader)) : undefined,
+      };
+    } catch (error) {
+      throw toProxyError(error);
     }
   }
 
   /**
-   * Makes multiple API requests in sequence
+   * Sends up to 200 requests in one call to /api/proxy/batch, which runs them
+   * server-side with bounded concurrency
+   * 
+   * @param requests - Array of API request configurations
+   * @param options - Concurrency, abort signal and optional per-result callback
+   * @returns Promise resolving to results in request order
+   * @throws ProxyRequestError if the batch itself is rejected
+   */
+  static async makeBatchRequest(
+    requests: ApiRequest[],
+    options: BatchRequestOptions = {}
+  ): Promise<ApiBatchResult[]> {
+    const { concurrency, onResult, signal } = options;
+
+    try {
+      const response = await apiRequest(
+        "POST",
+        "/api/proxy/batch",
+        { requests, concurrency, stream: !!onResult },
+        signal
+      );
+
+      if (!onResult) {
+        const { results } = await response.json() as { results: ApiBatchResult[] };
+        return results;
+      }
+
+      // NDJSON - one result per line, in completion order
+      const results = new Array<ApiBatchResult>(requests.length);
+      const decoder = new TextDecoder();
+      let buffered = "";
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const result = JSON.parse(line) as ApiBatchResult;
+        results[result.index] = result;
+        onResult(result);
+      };
+
+      if (response.body) {
+        const reader = response.body.getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split("\n");
+          buffered = lines.pop() || "";
+          lines.forEach(handleLine);
+        }
+      }
+      handleLine(buffered);
+
+      return results;
+    } catch (error) {
+      throw toProxyError(error);
+    }
+  }
+
+  /**
+   * Makes multiple API requests, either through the client-side scheduler
+   * or in server-side batches via /api/proxy/batch
    * 
    * @param requests - Array of API request configurations
    * @param onProgress - Optional callback for progress updates
+   * @param options - Set useBatchEndpoint to run the requests server-side
    * @returns Promise resolving to array of results
    */
   static async makeBulkRequests(
     requests: ApiRequest[], 
-    onProgress?: (completed: number, total: number) => void
+    onProgress?: (completed: number, total: number) => void,
+    options: { useBatchEndpoint?: boolean; concurrency?: number; signal?: AbortSignal } = {}
   ): Promise<Array<{ success: boolean; data?: ApiResponse; error?: string }>> {
     const bulkId = Math.random().toString(36).substr(2, 9);
     const startTime = performance.now();
     
+    if (options.useBatchEndpoint) {
+      const results: Array<{ success: boolean; data?: ApiResponse; error?: string }> = [];
+      let completed = 0;
+
+      for (let offset = 0; offset < requests.length; offset += BATCH_REQUEST_LIMIT) {
+        const chunk = requests.slice(offset, offset + BATCH_REQUEST_LIMIT);
+        const chunkResults = await this.makeBatchRequest(chunk, {
+          concurrency: options.concurrency,
+          signal: options.signal,
+          onResult: () => onProgress?.(++completed, requests.length),
+        });
+
+        chunk.forEach((_, index) => {
+          const result = chunkResults[index];
+          if (!result) {
+            results.push({ success: false, error: 'No result received from batch' });
+          } else if (result.ok) {
+            results.push({ success: true, data: result.response });
+          } else {
+            results.push({ success: false, error: createProxyError(0, result.error).message });
+          }
+        });
+      }
+
+      return results;
+    }
+    
     // Bulk request started with minimal logging
     
     // Convert requests to functions for batch processing
     const requestFunctions = requests.map((request, index) => async () => {
-      return await professionalScheduler.scheduleRequest(request.url, request.method, { priority: 'normal', token: request.token, headers: request.headers });
+      return await professionalScheduler.scheduleRequest(request.url, request.method, { priority: 'normal', identity: request.identity, token: request.token, headers: request.headers, timeoutMs: request.timeoutMs, jobId: bulkId, signal: options.signal });
     });
 
     // Process in batches with progress tracking
@@ -137,19 +442,44 @@ export class BrandsForLessService extends ApiService {
     return /^[A-Z]\d+/.test(id) || (id.length > 10 && /[A-Za-z]/.test(id));
   }
 
+  /**
+   * makeRequest for the profile steps; a 429 or 503 answer is thrown as an
+   * UpstreamThrottleError rather than returned
+   */
+  private static async makeProfileRequest(request: ApiRequest, options: RequestOptions): Promise<ApiResponse> {
+    const response = await this.makeRequest(request, options);
+    if (response.status === 429 || response.status === 503) {
+      throw new UpstreamThrottleError(
+        response.status,
+        null,
+        `API Error ${response.status}: ${response.data?.message || 'Upstream is throttling requests'}`
+      );
+    }
+    return response;
+  }
+
   /**
    * Fetches comprehensive customer profile by calling multiple endpoints sequentially
    * This maintains the original behavior of building rich profile data
    * 
    * @param customerIdOrOrderId - Customer ID or Order ID to fetch profile for
-   * @param token - Authentication token
+   * @param identity - Stored identity the proxy authenticates as
+   * @param options - Signal that cancels the remaining calls; `scheduled` sends them through the request scheduler
    * @returns Promise resolving to comprehensive profile data from the final enriched response
+   * @throws UpstreamThrottleError or a rate_limited ProxyRequestError when a step was throttled
    */
-  static async fetchCustomerProfile(customerIdOrOrderId: string, token: string): Promise<any> {
+  static async fetchCustomerProfile(
+    customerIdOrOrderId: string,
+    identity: string,
+    options: RequestOptions = {}
+  ): Promise<any> {
     const profileId = Math.random().toString(36).substr(2, 9);
     const startTime = performance.now();
     
     // Customer profile fetch started
+
+    // Orders and users repeat across overlapping bulk inputs
+    const cachedOptions: RequestOptions = { ...options, cacheTtlMs: PROFILE_CACHE_TTL_MS };
     
     // Step 0: Determine if input is customer ID or order ID and resolve to customer ID
     let actualCustomerId = customerIdOrOrderId;
@@ -161,10 +491,10 @@ export class BrandsForLessService extends ApiService {
         const orderRequest: ApiRequest = {
           url: `https://api.brandsforlessuae.com/shipment/api/v1/shipment/order/${customerIdOrOrderId}`,
           method: "GET",
-          token: token.trim(),
+          identity,
         };
         
-        const orderData = await this.makeRequest(orderRequest);
+        const orderData = await this.makeProfileRequest(orderRequest, cachedOptions);
         
         if (orderData.status === 200 && orderData.data && orderData.data.data) {
           const order = orderData.data.data;
@@ -179,7 +509,7 @@ export class BrandsForLessService extends ApiService {
           throw new Error(`Order ${customerIdOrOrderId} not found or invalid response`);
         }
       } catch (error) {
-
+        rethrowIfThrottled(error);
         throw new Error(`Failed to resolve order ID ${customerIdOrOrderId} to customer ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
@@ -204,10 +534,10 @@ export class BrandsForLessService extends ApiService {
       const addressRequest: ApiRequest = {
         url: `https://api.brandsforlessuae.com/customer/api/v1/address?customerId=${actualCustomerId}`,
         method: "GET",
-        token: token.trim(),
+        identity,
       };
       
-      const addressData = await this.makeRequest(addressRequest);
+      const addressData = await this.makeProfileRequest(addressRequest, options);
       
       if (addressData.status === 200 && addressData.data) {
         // Handle both array and object response formats
@@ -266,7 +596,7 @@ export class BrandsForLessService extends ApiService {
 
       }
     } catch (error) {
-
+      rethrowIfThrottled(error);
     }
 
     // Step 2: Fetch customer orders (ORIGINAL IMPLEMENTATION)
@@ -275,10 +605,10 @@ export class BrandsForLessService extends ApiService {
       const ordersRequest: ApiRequest = {
         url: `https://api.brandsforlessuae.com/shipment/api/v1/shipment/order?customerId=${actualCustomerId}&pageNum=1&pageSize=99999`,
         method: "GET",
-        token: token.trim(),
+        identity,
       };
       
-      const ordersData = await this.makeRequest(ordersRequest);
+      const ordersData = await this.makeProfileRequest(ordersRequest, options);
       
       if (ordersData.status === 200 && ordersData.data) {
         // Handle different response structures
@@ -389,10 +719,10 @@ export class BrandsForLessService extends ApiService {
                 const orderDetailsRequest: ApiRequest = {
                   url: `https://api.brandsforlessuae.com/shipment/api/v1/shipment/order/${orderId}`,
                   method: "GET",
-                  token: token.trim(),
+                  identity,
                 };
                 
-                const orderDetailsResponse = await this.makeRequest(orderDetailsRequest);
+                const orderDetailsResponse = await this.makeProfileRequest(orderDetailsRequest, cachedOptions);
                 
                 if (orderDetailsResponse.status === 200 && orderDetailsResponse.data && orderDetailsResponse.data.data) {
                   const detailedOrderData = orderDetailsResponse.data.data;
@@ -448,7 +778,7 @@ export class BrandsForLessService extends ApiService {
 
                 }
               } catch (error) {
-
+                rethrowIfThrottled(error);
               }
             }
             
@@ -468,7 +798,7 @@ export class BrandsForLessService extends ApiService {
         profile.latestOrders = latestOrdersWithUrls;
       }
     } catch (error) {
-
+      rethrowIfThrottled(error);
     }
 
     // Step 3: Try to get more profile data if name is still missing
@@ -478,10 +808,10 @@ export class BrandsForLessService extends ApiService {
         const userRequest: ApiRequest = {
           url: `https://api.brandsforlessuae.com/customer/api/v1/user?customerId=${actualCustomerId}`,
           method: "GET",
-          token: token.trim(),
+          identity,
         };
         
-        const userData = await this.makeRequest(userRequest);
+        const userData = await this.makeProfileRequest(userRequest, cachedOptions);
         
         if (userData.status === 200 && userData.data && userData.data.data && userData.data.data.length > 0) {
           const user = userData.data.data[0];
@@ -498,7 +828,7 @@ export class BrandsForLessService extends ApiService {
           }
         }
       } catch (error) {
-
+        rethrowIfThrottled(error);
       }
     }
 
@@ -508,10 +838,10 @@ export class BrandsForLessService extends ApiService {
       const piiRequest: ApiRequest = {
         url: `https://api.brandsforlessuae.com/customer/api/v1/user?mobile=&email=&customerId=${actualCustomerId}`,
         method: "GET",
-        token: token.trim(),
+        identity,
       };
       
-      const piiResponse = await this.makeRequest(piiRequest);
+      const piiResponse = await this.makeProfileRequest(piiRequest, options);
       
       if (piiResponse.status === 200 && piiResponse.data && piiResponse.data.data && piiResponse.data.data.length > 0) {
         const customerPiiData = piiResponse.data.data[0];
@@ -553,7 +883,8 @@ export class BrandsForLessService extends ApiService {
 
       }
     } catch (error) {
-      // PII fetch failed silently
+      // PII fetch failed silently unless throttled
+      rethrowIfThrottled(error);
     }
 
     // Extract shipping addresses from orders if no customer addresses found
@@ -627,6 +958,9 @@ export class BrandsForLessService extends ApiService {
       profile.latestOrders && profile.latestOrders.length > 0
     );
 
+    // Steps swallow their errors, so a cancelled fetch would otherwise look like an empty profile
+    options.signal?.throwIfAborted();
+
     // If no valid data found, return null to skip this customer
     if (!hasValidData) {
       return null;
@@ -650,15 +984,15 @@ export class BrandsForLessService extends ApiService {
    * Batch process multiple customer profiles with optimal performance
    * 
    * @param customerIds - Array of customer IDs to process
-   * @param token - Authentication token
+   * @param identity - Stored identity the proxy authenticates as
    * @returns Promise resolving to array of profile results
    */
   static async fetchCustomerProfilesBatch(
     customerIds: string[], 
-    token: string
+    identity: string
   ): Promise<Array<{ customerId: string; profile?: any; error?: string }>> {
     const profileFetcher = async (customerId: string) => {
-      return await this.fetchCustomerProfile(customerId, token);
+      return await this.fetchCustomerProfile(customerId, identity);
     };
 
     // Process customer profiles using the same bulk processing logic
@@ -666,7 +1000,7 @@ export class BrandsForLessService extends ApiService {
     
     for (const customerId of customerIds) {
       try {
-        const profile = await this.fetchCustomerProfile(customerId, token);
+        const profile = await this.fetchCustomerProfile(customerId, identity);
         results.push({ customerId, profile });
       } catch (error) {
         results.push({ 
@@ -683,13 +1017,13 @@ export class BrandsForLessService extends ApiService {
    * Cancels an order using the cancel endpoint
    * 
    * @param orderId - Order ID to cancel
-   * @param token - Authentication token
+   * @param identity - Stored identity the proxy authenticates as
    * @param reason - Cancellation reason
    * @returns Promise resolving to cancellation result
    */
   static async cancelOrder(
     orderId: string, 
-    token: string, 
+    identity: string, 
     reason: string = "Customer requested cancellation"
   ): Promise<ApiResponse> {
     const payload = {
@@ -702,7 +1036,7 @@ export class BrandsForLessService extends ApiService {
     return this.makeRequest({
       url: `https://api.brandsforlessuae.com/shipment/api/v1/cancel/order/${orderId}`,
       method: "POST",
-      token,
+      identity,
       headers: {
         ...this.BASE_HEADERS,
         "content-type": "application/json",
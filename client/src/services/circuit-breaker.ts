@@ -0,0 +1,175 @@
+/**
+ * Circuit Breakers for the Request Scheduler
+ *
+ * One breaker per upstream host and one per endpoint template, so a failing
+ * endpoint only stops calls to itself and a failing host only stops calls
+ * to that host. An open breaker becomes half-open once its cooldown ends and
+ * lets a single probe request through: success closes it, failure opens it
+ * again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Failure ratio over the window above which the breaker opens */
+  threshold: number;
+  /** Outcomes needed in the window before the ratio is trusted */
+  minRequests: number;
+  /** How long the breaker stays open before probing */
+  cooldownMs: number;
+  windowMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  /** Host, or "METHOD host/path/:id" for an endpoint */
+  key: string;
+  scope: 'host' | 'endpoint';
+  state: CircuitState;
+  failures: number;
+  requests: number;
+  failureRate: number;
+  /** When an open breaker starts probing */
+  openUntil: number | null;
+  lastError?: string;
+}
+
+// Path segments that identify a record rather than a resource
+const ID_SEGMENT = /^(\d+|[A-Z]{1,3}\d+|[0-9a-f]{16,}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/**
+ * Collapses record IDs in a URL, e.g. GET host/shipment/order/A123 becomes
+ * "GET host/shipment/order/:id", so every call to one endpoint shares a breaker
+ */
+export const getEndpointTemplate = (method: string, url: string): string => {
+  try {
+    const { host, pathname } = new URL(url);
+    const path = pathname
+      .split('/')
+      .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+      .join('/');
+    return `${method.toUpperCase()} ${host}${path}`;
+  } catch {
+    return `${method.toUpperCase()} ${url}`;
+  }
+};
+
+export class CircuitBreaker {
+  private outcomes: Array<{ at: number; ok: boolean }> = [];
+  private openUntil = 0;
+  private probeInFlight = false;
+  private lastError?: string;
+
+  constructor(
+    readonly key: string,
+    readonly scope: CircuitBreakerStatus['scope'],
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  getState(now: number = Date.now()): CircuitState {
+    if (this.openUntil === 0) return 'closed';
+    return now < this.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * Whether a request may go out now - half-open breakers allow one probe at a time
+   */
+  canRequest(now: number = Date.now()): boolean {
+    const state = this.getState(now);
+    return state === 'closed' || (state === 'half-open' && !this.probeInFlight);
+  }
+
+  /**
+   * Marks a request as sent; in the half-open state it is the probe
+   */
+  beginRequest(now: number = Date.now()) {
+    if (this.getState(now) === 'half-open') {
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(now: number = Date.now()) {
+    if (this.getState(now) === 'half-open') {
+      this.reset();
+      return;
+    }
+    this.addOutcome(now, true);
+  }
+
+  /**
+   * @returns Whether this failure opened the breaker
+   */
+  recordFailure(message: string, now: number = Date.now()): boolean {
+    this.lastError = message;
+    const state = this.getState(now);
+
+    if (state === 'half-open') {
+      this.open(now);
+      return true;
+    }
+    if (state === 'open') return false;
+
+    this.addOutcome(now, false);
+    const { failures, requests } = this.countOutcomes();
+    if (requests >= this.options.minRequests && failures / requests > this.options.threshold) {
+      this.open(now);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Frees the probe slot of a request that ended without a verdict
+   * (cancelled or throttled)
+   */
+  releaseRequest() {
+    this.probeInFlight = false;
+  }
+
+  reset() {
+    this.outcomes = [];
+    this.openUntil = 0;
+    this.probeInFlight = false;
+    this.lastError = undefined;
+  }
+
+  /**
+   * When an open breaker starts probing, 0 when it is not open
+   */
+  getOpenUntil(now: number = Date.now()): number {
+    return this.getState(now) === 'open' ? this.openUntil : 0;
+  }
+
+  getStatus(now: number = Date.now()): CircuitBreakerStatus {
+    this.prune(now);
+    const { failures, requests } = this.countOutcomes();
+    return {
+      key: this.key,
+      scope: this.scope,
+      state: this.getState(now),
+      failures,
+      requests,
+      failureRate: requests > 0 ? failures / requests : 0,
+      openUntil: this.getOpenUntil(now) || null,
+      lastError: this.lastError,
+    };
+  }
+
+  private open(now: number) {
+    this.openUntil = now + this.options.cooldownMs;
+    this.probeInFlight = false;
+  }
+
+  private addOutcome(now: number, ok: boolean) {
+    this.outcomes.push({ at: now, ok });
+    this.prune(now);
+  }
+
+  private prune(now: number) {
+    this.outcomes = this.outcomes.filter(outcome => now - outcome.at < this.options.windowMs);
+  }
+
+  private countOutcomes() {
+    const failures = this.outcomes.filter(outcome => !outcome.ok).length;
+    return { failures, requests: this.outcomes.length };
+  }
+}
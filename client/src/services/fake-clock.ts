@@ -0,0 +1,43 @@
+/**
+ * Clock for driving ProfessionalRequestScheduler on fake time in tests
+ */
+
+import type { SchedulerClock } from "./request-scheduler";
+
+// Where fake time starts; the scheduler treats 0 as "never sent a request"
+export const START = Date.UTC(2026, 0, 1);
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Clock whose time only moves when a test advances it. Timers fire in
+ * order, and pending promises settle after each one.
+ */
+export class FakeClock implements SchedulerClock {
+  private time = START;
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number) {
+    this.timers.push({ at: this.time + Math.max(0, ms), callback });
+  }
+
+  async advance(ms: number) {
+    const target = this.time + ms;
+    await flush();
+    while (true) {
+      this.timers.sort((a, b) => a.at - b.at);
+      const next = this.timers[0];
+      if (!next || next.at > target) break;
+
+      this.timers.shift();
+      this.time = next.at;
+      next.callback();
+      await flush();
+    }
+    this.time = target;
+  }
+}
@@ -5,4 +5,7 @@
  */
 
 export * from './api-service';
-export * from './request-scheduler';
\ No newline at end of file
+export * from './request-scheduler';
+export * from './proxy-errors';
+export * from './circuit-breaker';
+export * from './request-cache';
\ No newline at end of file
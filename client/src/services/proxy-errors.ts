@@ -0,0 +1,135 @@
+/**
+ * Proxy Error Types
+ * 
+ * Errors raised when the backend proxy rejects or fails a request, parsed from
+ * the proxy's JSON error payload so callers can branch on the error code
+ */
+
+import type { ProxyErrorCode, ProxyErrorResponse } from "@shared/schema";
+
+/**
+ * Error raised when the proxy itself rejects or fails a request, carrying
+ * the machine-readable code from its error payload
+ */
+export class ProxyRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: ProxyErrorCode,
+    public readonly details?: Record<string, unknown>,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'ProxyRequestError';
+  }
+}
+
+/**
+ * Error raised when the upstream did not answer within the request timeout.
+ * Timeouts are always safe to retry.
+ */
+export class ProxyTimeoutError extends ProxyRequestError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 504, 'upstream_timeout', details, true);
+    this.name = 'ProxyTimeoutError';
+  }
+}
+
+/**
+ * Error raised when upstream answers 429 or 503, with the wait its headers
+ * asked for (null when they did not say)
+ */
+export class UpstreamThrottleError extends Error {
+  constructor(public readonly status: number, public readonly retryAfterMs: number | null, message: string) {
+    super(message);
+    this.name = 'UpstreamThrottleError';
+  }
+}
+
+/**
+ * Builds the matching error class for a proxy error payload
+ * 
+ * @param status - HTTP status returned by the proxy
+ * @param payload - Parsed proxy error body
+ * @returns ProxyTimeoutError for timeouts, ProxyRequestError otherwise
+ */
+export const createProxyError = (status: number, payload: ProxyErrorResponse): ProxyRequestError => {
+  const detail = payload.error ? ` (${payload.error})` : '';
+  const message = `API request failed: ${payload.message}${detail}`;
+
+  if (payload.code === 'upstream_timeout') {
+    return new ProxyTimeoutError(message, payload.details);
+  }
+  return new ProxyRequestError(message, status, payload.code, payload.details, !!payload.retryable);
+};
+
+/**
+ * Turns an error thrown by apiRequest ("<status>: <body>") into a
+ * ProxyRequestError when the body is a proxy error payload.
+ * Aborts are passed through untouched so callers can recognise them.
+ * 
+ * @param error - Error thrown while calling the proxy
+ * @returns Normalised error
+ */
+export const toProxyError = (error: unknown): Error => {
+  if (isAbortError(error)) {
+    return error as Error;
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const match = message.match(/^(\d{3}): ([\s\S]*)$/);
+
+  if (match) {
+    try {
+      const payload = JSON.parse(match[2]) as ProxyErrorResponse;
+      if (payload && typeof payload.message === 'string') {
+        return createProxyError(parseInt(match[1], 10), payload);
+      }
+    } catch {
+      // Not a JSON payload - fall back to the raw message
+    }
+  }
+
+  return new Error(`API request failed: ${message}`);
+};
+
+/**
+ * Whether an error came from an AbortSignal firing
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+/**
+ * How long the proxy asked us to wait before sending again - set when a
+ * rate limit was hit, 0 otherwise
+ */
+export const getRetryAfterMs = (error: unknown): number => {
+  if (error instanceof ProxyRequestError && error.code === 'rate_limited') {
+    const retryAfterMs = error.details?.retryAfterMs;
+    return typeof retryAfterMs === 'number' ? retryAfterMs : 0;
+  }
+  return 0;
+};
+
+/**
+ * Whether a request failed because we are being throttled, by upstream or
+ * by the proxy's own rate limit
+ */
+export const isThrottleError = (error: unknown): boolean => {
+  return error instanceof UpstreamThrottleError || (error instanceof ProxyRequestError && error.code === 'rate_limited');
+};
+
+/**
+ * Whether a failed request is worth sending again. Errors carrying a proxy
+ * code say so themselves (allow-list, redirect and DNS failures are final;
+ * timeouts and upstream failures are not); without a code only 5xx replies
+ * and network failures are retried.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof ProxyRequestError) {
+    return error.code ? error.retryable : error.status >= 500;
+  }
+  return true;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { ApiResponse } from "@shared/schema";
+import { RequestCache } from "./request-cache";
+
+const response = (data: unknown): ApiResponse => ({
+  status: 200,
+  statusText: "OK",
+  headers: {},
+  data,
+  responseTime: 1,
+  size: 1,
+});
+
+/**
+ * A send whose calls only settle when the test says so, honouring the abort signal
+ */
+const deferredSend = () => {
+  const calls: Array<{ signal: AbortSignal; resolve: (value: ApiResponse) => void }> = [];
+  const send = (signal: AbortSignal) => new Promise<ApiResponse>((resolve, reject) => {
+    signal.addEventListener('abort', () => reject(new DOMException("aborted", 'AbortError')));
+    calls.push({ signal, resolve });
+  });
+  return { calls, send };
+};
+
+describe("RequestCache.share", () => {
+  it("lets identical requests in flight share one call", async () => {
+    const cache = new RequestCache();
+    const { calls, send } = deferredSend();
+
+    const first = cache.share("key", send);
+    const second = cache.share("key", send);
+    calls[0].resolve(response({ id: 1 }));
+
+    await expect(first).resolves.toMatchObject({ data: { id: 1 } });
+    await expect(second).resolves.toMatchObject({ data: { id: 1 } });
+    expect(calls).toHaveLength(1);
+    expect(cache.getStats()).toMatchObject({ misses: 1, coalesced: 1 });
+  });
+
+  it("aborts the shared call once every caller has left", async () => {
+    const cache = new RequestCache();
+    const { calls, send } = deferredSend();
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = cache.share("key", send, a.signal).catch(error => error);
+    const second = cache.share("key", send, b.signal).catch(error => error);
+    a.abort();
+    expect(calls[0].signal.aborted).toBe(false);
+    b.abort();
+
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(await first).toMatchObject({ name: 'AbortError' });
+    expect(await second).toMatchObject({ name: 'AbortError' });
+  });
+
+  it("starts a fresh call for a caller arriving after the shared one was aborted", async () => {
+    const cache = new RequestCache();
+    const { calls, send } = deferredSend();
+    const leaving = new AbortController();
+
+    const first = cache.share("key", send, leaving.signal).catch(error => error);
+    leaving.abort();
+    const late = cache.share("key", send);
+    calls[1].resolve(response({ id: 2 }));
+
+    expect(await first).toMatchObject({ name: 'AbortError' });
+    await expect(late).resolves.toMatchObject({ data: { id: 2 } });
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Request Cache for ApiService
+ *
+ * Identical GET requests made at the same time share one proxy call, and
+ * callers that opt in with a TTL are answered from recent responses. Every
+ * eligible GET counts as exactly one hit, coalesced join or miss, which is
+ * what the performance monitor's cache hit rate is based on.
+ */
+
+import type { ApiRequest, ApiResponse } from "@shared/schema";
+
+// Oldest responses are dropped past this
+const MAX_CACHE_ENTRIES = 500;
+
+export interface RequestCacheStats {
+  /** Answered from a cached response */
+  hits: number;
+  /** Joined an identical request already in flight */
+  coalesced: number;
+  /** Needed their own proxy call */
+  misses: number;
+  /** Responses currently cached */
+  entries: number;
+}
+
+interface CachedResponse {
+  response: ApiResponse;
+  storedAt: number;
+}
+
+interface InFlightRequest {
+  promise: Promise<ApiResponse>;
+  controller: AbortController;
+  /** Callers with a signal still waiting; the call is aborted when the last one leaves */
+  waiters: number;
+}
+
+/**
+ * Key that identifies requests with the same upstream response, or null for
+ * requests that must not be shared: anything but a plain GET, and streams
+ */
+export const getRequestCacheKey = (request: ApiRequest): string | null => {
+  if ((request.method ?? 'GET') !== 'GET' || request.stream || request.body || request.fields) {
+    return null;
+  }
+
+  const headers = Object.entries(request.headers ?? {})
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return JSON.stringify([
+    request.url,
+    request.identity ?? null,
+    // The raw token is ignored by the proxy when an identity is set
+    request.identity ? null : request.token ?? null,
+    headers,
+    request.redirect ?? 'follow',
+    request.cookieJar ?? null,
+  ]);
+};
+
+export class RequestCache {
+  private entries = new Map<string, CachedResponse>();
+  private inFlight = new Map<string, InFlightRequest>();
+  private stats = { hits: 0, coalesced: 0, misses: 0 };
+
+  /**
+   * A copy of the cached response if it is younger than `ttlMs`
+   */
+  get(key: string, ttlMs: number, now: number = Date.now()): ApiResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || now - entry.storedAt > ttlMs) return undefined;
+
+    this.stats.hits++;
+    return structuredClone(entry.response);
+  }
+
+  set(key: string, response: ApiResponse, now: number = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, { response, storedAt: now });
+
+    if (this.entries.size > MAX_CACHE_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Runs `send` unless an identical request is already in flight, in which
+   * case the caller waits for that one. A caller's signal only takes that
+   * caller out; the shared call is aborted once every caller has left, and
+   * later callers start a call of their own rather than join the aborted one.
+   */
+  share(key: string, send: (signal: AbortSignal) => Promise<ApiResponse>, signal?: AbortSignal): Promise<ApiResponse> {
+    signal?.throwIfAborted();
+
+    let entry = this.inFlight.get(key);
+    let joined = true;
+    if (entry) {
+      this.stats.coalesced++;
+    } else {
+      this.stats.misses++;
+      joined = false;
+
+      const controller = new AbortController();
+      const promise = send(controller.signal).finally(() => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      });
+      const created: InFlightRequest = { promise, controller, waiters: 0 };
+      entry = created;
+      this.inFlight.set(key, created);
+    }
+
+    // Joiners get their own copy so no caller sees another's changes
+    const shared = joined ? entry.promise.then(response => structuredClone(response)) : entry.promise;
+    if (!signal) {
+      // A caller that cannot leave keeps the call alive
+      entry.waiters = Infinity;
+      return shared;
+    }
+
+    const current = entry;
+    current.waiters++;
+    return new Promise<ApiResponse>((resolve, reject) => {
+      const leave = () => {
+        reject(signal.reason);
+        if (--current.waiters === 0) {
+          if (this.inFlight.get(key) === current) this.inFlight.delete(key);
+          current.controller.abort();
+        }
+      };
+      signal.addEventListener('abort', leave, { once: true });
+      shared
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', leave));
+    });
+  }
+
+  getStats(): RequestCacheStats {
+    return { ...this.stats, entries: this.entries.size };
+  }
+
+  /**
+   * Drops cached responses; requests in flight are left alone
+   */
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export const requestCache = new RequestCache();
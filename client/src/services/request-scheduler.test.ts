@@ -0,0 +1,486 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ProfessionalRequestScheduler,
+  type ProxyCallBody,
+  type ThrottleEvent,
+} from "./request-scheduler";
+import { FakeClock, START } from "./fake-clock";
+
+/** What /api/proxy answers: the upstream result wrapped in a 200 */
+const upstream = (status: number, headers: Record<string, string> = {}, data: unknown = {}) =>
+  new Response(JSON.stringify({ status, headers, data }), { status: 200 });
+
+type Respond = (body: ProxyCallBody, signal: AbortSignal) => Response | Promise<Response>;
+
+const setup = (config: ConstructorParameters<typeof ProfessionalRequestScheduler>[0], respond: Respond) => {
+  const clock = new FakeClock();
+  const calls: Array<{ url: string; at: number }> = [];
+  const scheduler = new ProfessionalRequestScheduler(
+    { maxConcurrentRequests: 10, requestsPerSecond: 1000, retryDelay: 1000, maxRetryDelay: 30000, ...config },
+    {
+      clock,
+      transport: async (body, signal) => {
+        calls.push({ url: body.url, at: clock.now() - START });
+        return respond(body, signal);
+      },
+    }
+  );
+  return { clock, calls, scheduler };
+};
+
+/** Resolves to "ok" or the error, so rejections never go unhandled */
+const settle = (promise: Promise<unknown>) =>
+  promise.then(() => 'ok' as const, (error: Error) => error);
+
+describe("ProfessionalRequestScheduler", () => {
+  describe("priority ordering", () => {
+    it("sends queued tasks highest priority first, keeping order within a priority", async () => {
+      const { clock, calls, scheduler } = setup({ maxConcurrentRequests: 1 }, () => upstream(200));
+
+      // The first task starts straight away and holds the only slot
+      scheduler.scheduleRequest("https://h.test/first");
+      scheduler.scheduleRequest("https://h.test/low", 'GET', { priority: 'low' });
+      scheduler.scheduleRequest("https://h.test/normal-1");
+      scheduler.scheduleRequest("https://h.test/high", 'GET', { priority: 'high' });
+      scheduler.scheduleRequest("https://h.test/normal-2");
+      await clock.advance(2000);
+
+      expect(calls.map(call => call.url.replace("https://h.test/", ""))).toEqual([
+        'first', 'high', 'normal-1', 'normal-2', 'low',
+      ]);
+    });
+
+    it("resolves each task with its proxy result", async () => {
+      const { clock, scheduler } = setup({}, body => upstream(200, {}, { url: body.url }));
+
+      const result = scheduler.scheduleRequest<any>("https://h.test/a");
+      await clock.advance(10);
+
+      await expect(result).resolves.toMatchObject({ status: 200, data: { url: "https://h.test/a" } });
+      expect(scheduler.getMetrics()).toMatchObject({ totalRequests: 1, completedRequests: 1, failedRequests: 0 });
+    });
+  });
+
+  describe("rate limits", () => {
+    it("spaces requests to the configured requests per second", async () => {
+      const { clock, calls, scheduler } = setup({ requestsPerSecond: 2 }, () => upstream(200));
+
+      for (let i = 0; i < 3; i++) scheduler.scheduleRequest(`https://h.test/${i}`);
+      await clock.advance(2000);
+
+      expect(calls.map(call => call.at)).toEqual([0, 500, 1000]);
+    });
+
+    it("halves the rate when throttled and climbs back as requests succeed", async () => {
+      let throttled = false;
+      const { clock, calls, scheduler } = setup({ requestsPerSecond: 2, adaptiveRateLimit: true }, () => {
+        if (throttled) return upstream(200);
+        throttled = true;
+        return upstream(429, { 'retry-after': '1' });
+      });
+
+      for (let i = 0; i < 8; i++) scheduler.scheduleRequest(`https://h.test/${i}`);
+      await clock.advance(20000);
+
+      // The throttled call is retried once the host resumes, at half the rate
+      const gaps = calls.slice(1).map((call, index) => Math.round(call.at - calls[index].at));
+      expect(gaps).toEqual([1000, 1000, 833, 714, 625, 556, 500, 500]);
+    });
+
+    it("keeps the configured rate after a throttle when adaptive rate limiting is off", async () => {
+      let throttled = false;
+      const { clock, calls, scheduler } = setup({ requestsPerSecond: 2, adaptiveRateLimit: false }, () => {
+        if (throttled) return upstream(200);
+        throttled = true;
+        return upstream(429, { 'retry-after': '1' });
+      });
+
+      for (let i = 0; i < 4; i++) scheduler.scheduleRequest(`https://h.test/${i}`);
+      await clock.advance(20000);
+
+      const gaps = calls.slice(1).map((call, index) => call.at - calls[index].at);
+      expect(gaps).toEqual([1000, 500, 500, 500]);
+    });
+
+    it("never has more than maxConcurrentRequests in flight", async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const { clock, calls, scheduler } = setup({ maxConcurrentRequests: 2 }, () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        return new Promise(resolve => clock.setTimeout(() => {
+          inFlight--;
+          resolve(upstream(200));
+        }, 300));
+      });
+
+      for (let i = 0; i < 5; i++) scheduler.scheduleRequest(`https://h.test/${i}`);
+      await clock.advance(5000);
+
+      expect(calls).toHaveLength(5);
+      expect(peak).toBe(2);
+    });
+
+    it("pauses a host for as long as Retry-After asks and leaves other hosts alone", async () => {
+      let throttled = false;
+      const { clock, calls, scheduler } = setup({}, body => {
+        if (body.url === "https://slow.test/a" && !throttled) {
+          throttled = true;
+          return upstream(429, { 'retry-after': '2' });
+        }
+        return upstream(200);
+      });
+      const events: ThrottleEvent[] = [];
+      scheduler.onThrottle(event => events.push(event));
+
+      const throttledTask = settle(scheduler.scheduleRequest("https://slow.test/a"));
+      await clock.advance(10);
+      scheduler.scheduleRequest("https://slow.test/b");
+      scheduler.scheduleRequest("https://other.test/c");
+      await clock.advance(3000);
+
+      expect(await throttledTask).toBe('ok');
+      expect(events).toEqual([
+        expect.objectContaining({ host: 'slow.test', status: 429, waitMs: 2000, source: 'retry-after' }),
+      ]);
+      const at = (url: string) => calls.filter(call => call.url === url).map(call => call.at);
+      // Other hosts are not held for the pause
+      expect(at("https://other.test/c")[0]).toBeLessThan(2000);
+      expect(at("https://slow.test/b")[0]).toBeGreaterThanOrEqual(2000);
+      expect(at("https://slow.test/a")[1]).toBeGreaterThanOrEqual(2000);
+      // Being throttled is not a failure
+      expect(scheduler.getMetrics()).toMatchObject({ failedRequests: 0, throttleEvents: 1 });
+    });
+
+    it("pauses a host whose X-RateLimit window is spent until it resets", async () => {
+      const { clock, calls, scheduler } = setup({}, body => body.url.endsWith("/a")
+        ? upstream(200, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '3' })
+        : upstream(200));
+      const events: ThrottleEvent[] = [];
+      scheduler.onThrottle(event => events.push(event));
+
+      scheduler.scheduleRequest("https://h.test/a");
+      await clock.advance(10);
+      scheduler.scheduleRequest("https://h.test/b");
+      await clock.advance(4000);
+
+      expect(events[0]).toMatchObject({ host: 'h.test', waitMs: 3000, source: 'x-ratelimit' });
+      expect(calls[1].at).toBeGreaterThanOrEqual(3000);
+    });
+
+    it("pauses every host when the proxy's per-user limit is reached", async () => {
+      let limited = false;
+      const { clock, calls, scheduler } = setup({}, () => {
+        if (!limited) {
+          limited = true;
+          return new Response(JSON.stringify({
+            message: "Rate limit reached",
+            code: 'rate_limited',
+            details: { scope: 'user', key: 'ops', retryAfterMs: 1500 },
+            retryable: true,
+          }), { status: 429 });
+        }
+        return upstream(200);
+      });
+
+      scheduler.scheduleRequest("https://a.test/1");
+      await clock.advance(10);
+      scheduler.scheduleRequest("https://b.test/2");
+      await clock.advance(3000);
+
+      expect(calls.find(call => call.url === "https://b.test/2")!.at).toBeGreaterThanOrEqual(1500);
+    });
+  });
+
+  describe("retries", () => {
+    beforeEach(() => {
+      // No jitter: retry delays become exactly half the exponential backoff.
+      // Only safe with one task per test, as task IDs use Math.random too
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("retries with exponential backoff, then rejects with the last error", async () => {
+      const { clock, calls, scheduler } = setup({}, () => {
+        throw new TypeError("Failed to fetch");
+      });
+
+      const result = settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { maxRetries: 2 }));
+      await clock.advance(10000);
+
+      // Base delay 1000ms doubled per attempt, halved by the (zero) jitter
+      expect(calls.map(call => call.at)).toEqual([0, 500, 1500]);
+      expect(await result).toMatchObject({ message: "Failed to fetch" });
+      expect(scheduler.getMetrics().failedRequests).toBe(1);
+    });
+
+    it("caps retry delays at maxRetryDelay", async () => {
+      const { clock, calls, scheduler } = setup({ retryDelay: 1000, maxRetryDelay: 1500 }, () => upstream(500));
+
+      settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { maxRetries: 4 }));
+      await clock.advance(20000);
+
+      const gaps = calls.slice(1).map((call, index) => call.at - calls[index].at);
+      expect(gaps).toEqual([500, 1000, 1500, 1500]);
+    });
+
+    it("does not retry proxy rejections", async () => {
+      const { clock, calls, scheduler } = setup({}, () => new Response(JSON.stringify({
+        message: "Target host is not allowed",
+        code: 'host_not_allowed',
+      }), { status: 403 }));
+
+      const result = settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { maxRetries: 3 }));
+      await clock.advance(10000);
+
+      expect(calls).toHaveLength(1);
+      expect(await result).toMatchObject({ status: 403, code: 'host_not_allowed' });
+    });
+
+    it("does not retry 5xx proxy errors marked final, such as redirect failures", async () => {
+      const { clock, calls, scheduler } = setup({}, () => new Response(JSON.stringify({
+        message: "Too many redirects",
+        code: 'too_many_redirects',
+        retryable: false,
+      }), { status: 502 }));
+
+      const result = settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { maxRetries: 3 }));
+      await clock.advance(10000);
+
+      expect(calls).toHaveLength(1);
+      expect(await result).toMatchObject({ status: 502, code: 'too_many_redirects' });
+    });
+
+    it("resolves upstream client errors without retrying or counting them against the breakers", async () => {
+      const { clock, calls, scheduler } = setup({ circuitBreakerMinRequests: 1 }, () => upstream(404, {}, { message: "Not found" }));
+
+      const result = scheduler.scheduleRequest<any>("https://h.test/customer/13");
+      await clock.advance(10000);
+
+      await expect(result).resolves.toMatchObject({ status: 404 });
+      expect(calls).toHaveLength(1);
+      expect(scheduler.getCircuitBreakers()).toEqual([]);
+    });
+
+    it("sends maxRetries: 0 exactly once", async () => {
+      const { clock, calls, scheduler } = setup({}, () => upstream(500));
+
+      settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { maxRetries: 0 }));
+      await clock.advance(10000);
+
+      expect(calls).toHaveLength(1);
+    });
+  });
+
+  describe("circuit breakers", () => {
+    const breakerConfig = { circuitBreakerThreshold: 0.5, circuitBreakerMinRequests: 2, circuitBreakerCooldownMs: 1000 };
+
+    const stateOf = (scheduler: ProfessionalRequestScheduler, key: string) =>
+      scheduler.getCircuitBreakers().find(breaker => breaker.key === key)?.state ?? 'closed';
+
+    it("opens the host and endpoint breakers once the failure rate passes the threshold", async () => {
+      const { clock, calls, scheduler } = setup(breakerConfig, () => upstream(500));
+      const changes = vi.fn();
+      scheduler.onCircuitChange(changes);
+
+      settle(scheduler.scheduleRequest("https://inv.test/invoice/1", 'GET', { maxRetries: 0 }));
+      await clock.advance(10);
+      expect(stateOf(scheduler, 'inv.test')).toBe('closed');
+
+      settle(scheduler.scheduleRequest("https://inv.test/invoice/2", 'GET', { maxRetries: 0 }));
+      await clock.advance(10);
+
+      expect(stateOf(scheduler, 'inv.test')).toBe('open');
+      expect(stateOf(scheduler, 'GET inv.test/invoice/:id')).toBe('open');
+      expect(scheduler.getMetrics().circuitBreakerOpen).toBe(true);
+      expect(changes).toHaveBeenCalled();
+
+      // Held back while open
+      settle(scheduler.scheduleRequest("https://inv.test/invoice/3", 'GET', { maxRetries: 0 }));
+      await clock.advance(500);
+      expect(calls).toHaveLength(2);
+    });
+
+    it("only holds back the failing endpoint while the host stays healthy", async () => {
+      const { clock, calls, scheduler } = setup({ ...breakerConfig, circuitBreakerCooldownMs: 5000 }, body =>
+        body.url.includes("/invoice/") ? upstream(500) : upstream(200));
+
+      for (let i = 0; i < 3; i++) scheduler.scheduleRequest(`https://h.test/orders/${i}`);
+      settle(scheduler.scheduleRequest("https://h.test/invoice/1", 'GET', { maxRetries: 0 }));
+      settle(scheduler.scheduleRequest("https://h.test/invoice/2", 'GET', { maxRetries: 0 }));
+      await clock.advance(50);
+
+      expect(stateOf(scheduler, 'GET h.test/invoice/:id')).toBe('open');
+      expect(stateOf(scheduler, 'h.test')).toBe('closed');
+
+      settle(scheduler.scheduleRequest("https://h.test/invoice/3", 'GET', { maxRetries: 0 }));
+      scheduler.scheduleRequest("https://h.test/orders/9");
+      // Picked up on the queue's next pass, well before the cooldown ends
+      await clock.advance(1100);
+
+      const urls = calls.map(call => call.url);
+      expect(urls).toContain("https://h.test/orders/9");
+      expect(urls).not.toContain("https://h.test/invoice/3");
+    });
+
+    it("sends a single probe when half-open and closes on its success", async () => {
+      let failing = true;
+      const { clock, calls, scheduler } = setup(breakerConfig, () => {
+        if (failing) return upstream(500);
+        return new Promise(resolve => clock.setTimeout(() => resolve(upstream(200)), 200));
+      });
+
+      settle(scheduler.scheduleRequest("https://h.test/a/1", 'GET', { maxRetries: 0 }));
+      settle(scheduler.scheduleRequest("https://h.test/a/2", 'GET', { maxRetries: 0 }));
+      await clock.advance(10);
+      failing = false;
+
+      const first = settle(scheduler.scheduleRequest("https://h.test/a/3"));
+      const second = settle(scheduler.scheduleRequest("https://h.test/a/4"));
+      await clock.advance(1100);
+
+      // Cooldown over: one probe goes out, the other waits for its result
+      expect(stateOf(scheduler, 'h.test')).toBe('half-open');
+      expect(calls.map(call => call.url)).toEqual(["https://h.test/a/1", "https://h.test/a/2", "https://h.test/a/3"]);
+
+      await clock.advance(1000);
+      expect(await first).toBe('ok');
+      expect(await second).toBe('ok');
+      expect(stateOf(scheduler, 'h.test')).toBe('closed');
+      expect(scheduler.getMetrics().circuitBreakerOpen).toBe(false);
+    });
+
+    it("opens again when the probe fails", async () => {
+      const { clock, calls, scheduler } = setup(breakerConfig, () => upstream(500));
+
+      settle(scheduler.scheduleRequest("https://h.test/a/1", 'GET', { maxRetries: 0 }));
+      settle(scheduler.scheduleRequest("https://h.test/a/2", 'GET', { maxRetries: 0 }));
+      await clock.advance(10);
+      settle(scheduler.scheduleRequest("https://h.test/a/3", 'GET', { maxRetries: 0 }));
+      await clock.advance(1100);
+
+      expect(calls).toHaveLength(3);
+      expect(calls[2].at).toBeGreaterThanOrEqual(1000);
+      expect(stateOf(scheduler, 'h.test')).toBe('open');
+    });
+
+    it("closes breakers on manual reset", async () => {
+      const { clock, calls, scheduler } = setup({ ...breakerConfig, circuitBreakerCooldownMs: 5000 }, body =>
+        body.url.endsWith("/ok") ? upstream(200) : upstream(500));
+
+      settle(scheduler.scheduleRequest("https://h.test/a/1", 'GET', { maxRetries: 0 }));
+      settle(scheduler.scheduleRequest("https://h.test/a/2", 'GET', { maxRetries: 0 }));
+      await clock.advance(10);
+      scheduler.scheduleRequest("https://h.test/ok");
+      await clock.advance(100);
+      expect(calls).toHaveLength(2);
+
+      scheduler.resetCircuitBreaker('h.test');
+      await clock.advance(1100);
+
+      expect(calls.map(call => call.url)).toContain("https://h.test/ok");
+      expect(stateOf(scheduler, 'h.test')).toBe('closed');
+      expect(stateOf(scheduler, 'GET h.test/a/:id')).toBe('open');
+    });
+  });
+
+  describe("cancellation", () => {
+    it("rejects a job's queued and in-flight tasks and aborts their calls", async () => {
+      const signals: AbortSignal[] = [];
+      const { clock, calls, scheduler } = setup({ maxConcurrentRequests: 1 }, (_body, signal) => {
+        signals.push(signal);
+        return new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new DOMException("aborted", 'AbortError')));
+          clock.setTimeout(() => resolve(upstream(200)), 1000);
+        });
+      });
+
+      const inFlight = settle(scheduler.scheduleRequest("https://h.test/1", 'GET', { jobId: 'bulk' }));
+      const queued = settle(scheduler.scheduleRequest("https://h.test/2", 'GET', { jobId: 'bulk' }));
+      const other = settle(scheduler.scheduleRequest("https://h.test/3", 'GET', { jobId: 'other' }));
+      await clock.advance(10);
+
+      expect(scheduler.cancelJob('bulk')).toBe(2);
+      await clock.advance(2000);
+
+      expect(await inFlight).toMatchObject({ name: 'AbortError' });
+      expect(await queued).toMatchObject({ name: 'AbortError' });
+      expect(await other).toBe('ok');
+      expect(signals[0].aborted).toBe(true);
+      expect(calls.map(call => call.url)).toEqual(["https://h.test/1", "https://h.test/3"]);
+      expect(scheduler.getMetrics().failedRequests).toBe(0);
+    });
+
+    it("rejects a task whose signal aborts, including one waiting to be retried", async () => {
+      const { clock, calls, scheduler } = setup({}, () => upstream(500));
+      const controller = new AbortController();
+
+      const result = settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { signal: controller.signal }));
+      await clock.advance(10);
+      controller.abort();
+      await clock.advance(10000);
+
+      expect(await result).toMatchObject({ name: 'AbortError' });
+      expect(calls).toHaveLength(1);
+    });
+
+    it("rejects at once when the signal is already aborted", async () => {
+      const { calls, scheduler } = setup({}, () => upstream(200));
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(await settle(scheduler.scheduleRequest("https://h.test/a", 'GET', { signal: controller.signal })))
+        .toMatchObject({ name: 'AbortError' });
+      expect(calls).toHaveLength(0);
+    });
+
+    it("rejects pending tasks on reset instead of leaving them hanging", async () => {
+      const { clock, scheduler } = setup({ maxConcurrentRequests: 1 }, (_body, signal) =>
+        new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new DOMException("aborted", 'AbortError')));
+          clock.setTimeout(() => resolve(upstream(200)), 1000);
+        }));
+
+      const tasks = [1, 2, 3].map(i => settle(scheduler.scheduleRequest(`https://h.test/${i}`)));
+      await clock.advance(10);
+      scheduler.reset();
+      await clock.advance(10);
+
+      for (const task of tasks) {
+        expect(await task).toMatchObject({ name: 'AbortError' });
+      }
+      expect(scheduler.getMetrics().totalRequests).toBe(0);
+    });
+  });
+
+  describe("shutdown", () => {
+    it("waits for in-flight requests to finish", async () => {
+      const { clock, scheduler } = setup({}, () =>
+        new Promise(resolve => clock.setTimeout(() => resolve(upstream(200)), 1000)));
+
+      const task = scheduler.scheduleRequest("https://h.test/a");
+      await clock.advance(10);
+
+      let done = false;
+      const shutdown = scheduler.shutdown().then(() => {
+        done = true;
+      });
+      await clock.advance(500);
+      expect(done).toBe(false);
+
+      await clock.advance(1000);
+      await shutdown;
+      expect(done).toBe(true);
+      await expect(task).resolves.toMatchObject({ status: 200 });
+    });
+
+    it("returns straight away when nothing is in flight", async () => {
+      const { scheduler } = setup({}, () => upstream(200));
+
+      await expect(scheduler.shutdown()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -6,17 +6,36 @@
  * - Connection pooling
  * - Request prioritization
  * - Retry mechanisms with exponential backoff
- * - Circuit breaker pattern
+ * - Circuit breakers per host and per endpoint, with half-open probing
  * - Concurrent request batching
+ * 
+ * Time and the proxy call are injected (SchedulerClock, SchedulerTransport),
+ * so tests can drive the scheduler without real timers or network.
  */
 
+import {
+  ProxyRequestError,
+  UpstreamThrottleError,
+  createProxyError,
+  getRetryAfterMs,
+  isAbortError,
+  isRetryableError
+} from "./proxy-errors";
+import { CircuitBreaker, getEndpointTemplate, type CircuitBreakerStatus } from "./circuit-breaker";
+
 interface RequestTask<T = any> {
   id: string;
   url: string;
   method: string;
   priority: 'low' | 'normal' | 'high';
+  identity?: string;
   token?: string;
   headers?: Record<string, string>;
+  timeoutMs?: number;
+  /** Job the task belongs to, so a whole run can be cancelled at once */
+  jobId?: string;
+  /** Aborted when the task is cancelled; also cancels the in-flight proxy call */
+  controller: AbortController;
   retryCount: number;
   maxRetries: number;
   resolve: (value: T) => void;
@@ -24,17 +43,22 @@ interface RequestTask<T = any> {
   startTime?: number;
 }
 
+// Upstream connections are pooled by the proxy (PROXY_POOL_SIZE), not here
 interface SchedulerConfig {
   maxConcurrentRequests: number;
   requestsPerSecond: number;
+  /** Halve the request rate on every throttle and win it back as requests succeed */
   adaptiveRateLimit: boolean;
   circuitBreakerThreshold: number;
+  /** Outcomes a breaker needs in its window before it can open */
+  circuitBreakerMinRequests: number;
+  /** How long an open breaker waits before sending a probe */
+  circuitBreakerCooldownMs: number;
   retryDelay: number;
   maxRetryDelay: number;
-  connectionPoolSize: number;
 }
 
-interface PerformanceMetrics {
+export interface PerformanceMetrics {
   totalRequests: number;
   completedRequests: number;
   failedRequests: number;
@@ -42,32 +66,148 @@ interface PerformanceMetrics {
   currentRPS: number;
   activeConnections: number;
   circuitBreakerOpen: boolean;
+  throttleEvents: number;
+}
+
+/**
+ * A pause of one host's queue because upstream (or the proxy) asked us to slow down
+ */
+export interface ThrottleEvent {
+  /** Paused host, or "*" when the proxy's per-user limit pauses every host */
+  host: string;
+  /** Status that triggered the pause (429 or 503) */
+  status: number;
+  waitMs: number;
+  /** Where the wait came from; backoff means no header said how long */
+  source: 'retry-after' | 'x-ratelimit' | 'proxy' | 'backoff';
+  at: number;
+}
+
+/**
+ * Time source and timers the scheduler runs on
+ */
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): void;
+}
+
+/**
+ * Body of one /api/proxy call
+ */
+export interface ProxyCallBody {
+  url: string;
+  method: string;
+  identity?: string;
+  token?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
 }
 
-class ProfessionalRequestScheduler {
+/**
+ * Sends one proxy call and returns the proxy's HTTP response
+ */
+export type SchedulerTransport = (body: ProxyCallBody, signal: AbortSignal) => Promise<Response>;
+
+export interface SchedulerDependencies {
+  clock?: SchedulerClock;
+  transport?: SchedulerTransport;
+}
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => {
+    setTimeout(callback, ms);
+  }
+};
+
+const fetchTransport: SchedulerTransport = (body, signal) => fetch('/api/proxy', {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  body: JSON.stringify(body),
+  signal,
+});
+
+const THROTTLE_STATUSES = [429, 503];
+// Outcomes older than this do not count towards a breaker's failure rate
+const CIRCUIT_WINDOW_MS = 60000;
+const ALL_HOSTS = '*';
+// Adaptive rate limiting never drops below this share of requestsPerSecond...
+const ADAPTIVE_MIN_RATE_FACTOR = 0.125;
+// ...and takes this many successes to climb back up to it
+const ADAPTIVE_RECOVERY_STEPS = 10;
+
+/**
+ * Wait until the rate limit window resets, when X-RateLimit-Remaining says
+ * it is used up. X-RateLimit-Reset may be epoch seconds or seconds from now.
+ */
+const parseRateLimitReset = (headers: Record<string, string> = {}, now: number): number | null => {
+  const reset = Number(headers['x-ratelimit-reset']);
+  if (headers['x-ratelimit-remaining'] !== '0' || !(reset > 0)) return null;
+  // Values this large are timestamps rather than a number of seconds
+  return Math.max(0, reset > 1e9 ? reset * 1000 - now : reset * 1000);
+};
+
+/**
+ * How long a throttled upstream asked us to wait, from Retry-After (seconds
+ * or an HTTP date) or else the rate limit headers. Null when neither says.
+ */
+const parseRetryAfter = (headers: Record<string, string> = {}, now: number): number | null => {
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds) ? Date.parse(retryAfter) - now : seconds * 1000;
+    if (!isNaN(ms)) return Math.max(0, ms);
+  }
+  return parseRateLimitReset(headers, now);
+};
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+export class ProfessionalRequestScheduler {
   private queue: RequestTask[] = [];
   private activeRequests = new Map<string, RequestTask>();
+  // Every unsettled task - queued, in flight or waiting to be retried
+  private pendingTasks = new Map<string, RequestTask>();
   private completedRequests: string[] = [];
-  private failureHistory: number[] = [];
   private config: SchedulerConfig;
   private isProcessing = false;
   private lastRequestTime = 0;
-  private circuitBreakerOpenUntil = 0;
+  // Rate actually sent at - below requestsPerSecond while adaptive rate limiting backs off
+  private currentRateLimit: number;
+  // Keyed by host, and by endpoint template for the endpoint breakers
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+  private circuitListeners = new Set<() => void>();
+  private hostPausedUntil = new Map<string, number>();
+  private throttleListeners = new Set<(event: ThrottleEvent) => void>();
   private performanceMetrics: PerformanceMetrics;
   private onProgressCallback?: (metrics: PerformanceMetrics) => void;
   private onDebugCallback?: (level: string, message: string, data?: any) => void;
+  private readonly clock: SchedulerClock;
+  private readonly transport: SchedulerTransport;
 
-  constructor(config: Partial<SchedulerConfig> = {}) {
+  constructor(config: Partial<SchedulerConfig> = {}, dependencies: SchedulerDependencies = {}) {
+    this.clock = dependencies.clock ?? systemClock;
+    this.transport = dependencies.transport ?? fetchTransport;
     this.config = {
       maxConcurrentRequests: 6, // Reduced for better stability
       requestsPerSecond: 3, // More conservative to prevent freezing
       adaptiveRateLimit: true,
       circuitBreakerThreshold: 0.5, // 50% failure rate
+      circuitBreakerMinRequests: 5,
+      circuitBreakerCooldownMs: 30000,
       retryDelay: 1000,
       maxRetryDelay: 30000,
-      connectionPoolSize: 10,
       ...config
     };
+    this.currentRateLimit = this.config.requestsPerSecond;
 
     this.performanceMetrics = {
       totalRequests: 0,
@@ -76,7 +216,8 @@ class ProfessionalRequestScheduler {
       averageResponseTime: 0,
       currentRPS: 0,
       activeConnections: 0,
-      circuitBreakerOpen: false
+      circuitBreakerOpen: false,
+      throttleEvents: 0
     };
   }
 
@@ -95,31 +236,122 @@ class ProfessionalRequestScheduler {
   }
 
   /**
-   * Add request to queue with professional prioritization
+   * Subscribe to host pauses caused by 429/503 responses
+   * 
+   * @returns Function that removes the listener
+   */
+  onThrottle(listener: (event: ThrottleEvent) => void): () => void {
+    this.throttleListeners.add(listener);
+    return () => {
+      this.throttleListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to circuit breakers opening, closing or being reset
+   * 
+   * @returns Function that removes the listener
+   */
+  onCircuitChange(listener: () => void): () => void {
+    this.circuitListeners.add(listener);
+    return () => {
+      this.circuitListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Breakers that are not closed or have failures in their window
+   */
+  getCircuitBreakers(): CircuitBreakerStatus[] {
+    const now = this.clock.now();
+    return Array.from(this.circuitBreakers.values())
+      .map(breaker => breaker.getStatus(now))
+      .filter(status => status.state !== 'closed' || status.failures > 0)
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Closes one breaker, or every breaker when no key is given
+   */
+  resetCircuitBreaker(key?: string) {
+    if (key) {
+      this.circuitBreakers.get(key)?.reset();
+    } else {
+      this.circuitBreakers.forEach(breaker => breaker.reset());
+    }
+
+    this.debugLog('info', '🔌 Circuit Breaker Reset', { key: key ?? 'all' });
+    this.notifyCircuitChange();
+  }
+
+  /**
+   * Add request to queue with professional prioritization.
+   * Resolves with the proxy's result for any upstream answer other than a
+   * 5xx or 429, which are retried and finally rejected.
+   * Aborting `signal`, or cancelling the task's job, rejects the promise with
+   * an AbortError whether the task is queued, in flight or awaiting a retry.
    */
   async scheduleRequest<T>(
     url: string,
     method: string = 'GET',
     options: {
       priority?: 'low' | 'normal' | 'high';
+      identity?: string;
       token?: string;
       headers?: Record<string, string>;
       maxRetries?: number;
+      timeoutMs?: number;
+      jobId?: string;
+      signal?: AbortSignal;
     } = {}
   ): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(this.createAbortError());
+        return;
+      }
+
+      const controller = new AbortController();
+      const cancel = () => controller.abort();
+      options.signal?.addEventListener('abort', cancel, { once: true });
+
       const task: RequestTask<T> = {
         id: this.generateTaskId(),
         url,
         method,
         priority: options.priority || 'normal',
+        identity: options.identity,
         token: options.token,
         headers: options.headers,
+        timeoutMs: options.timeoutMs,
+        jobId: options.jobId,
+        controller,
         retryCount: 0,
-        maxRetries: options.maxRetries || 3,
-        resolve,
-        reject
+        maxRetries: options.maxRetries ?? 3,
+        resolve: (value) => {
+          settle();
+          resolve(value);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        }
       };
+      const settle = () => {
+        this.pendingTasks.delete(task.id);
+        options.signal?.removeEventListener('abort', cancel);
+      };
+
+      // Queued and retry-waiting tasks settle here; in-flight ones when their fetch rejects
+      controller.signal.addEventListener('abort', () => {
+        if (this.activeRequests.has(task.id)) return;
+        this.queue = this.queue.filter(queued => queued.id !== task.id);
+        this.debugLog('info', `🛑 Task Cancelled: ${task.id}`, { jobId: task.jobId });
+        task.reject(this.createAbortError());
+        this.updateProgress();
+      }, { once: true });
+
+      this.pendingTasks.set(task.id, task);
 
       // Priority queue insertion
       this.insertByPriority(task);
@@ -128,6 +360,7 @@ class ProfessionalRequestScheduler {
       this.debugLog('info', `📋 Task Queued: ${task.id}`, {
         url: task.url,
         priority: task.priority,
+        jobId: task.jobId,
         queueLength: this.queue.length
       });
 
@@ -140,6 +373,21 @@ class ProfessionalRequestScheduler {
     });
   }
 
+  /**
+   * Cancels every queued, in-flight and retry-waiting task of a job
+   * 
+   * @returns Number of tasks cancelled
+   */
+  cancelJob(jobId: string): number {
+    const tasks = Array.from(this.pendingTasks.values()).filter(task => task.jobId === jobId);
+    tasks.forEach(task => task.controller.abort());
+
+    if (tasks.length > 0) {
+      this.debugLog('warning', `🛑 Job Cancelled: ${jobId}`, { cancelledTasks: tasks.length });
+    }
+    return tasks.length;
+  }
+
   /**
    * Professional queue processing with advanced rate limiting
    */
@@ -151,15 +399,6 @@ class ProfessionalRequestScheduler {
     });
 
     while (this.queue.length > 0 || this.activeRequests.size > 0) {
-      // Check circuit breaker
-      if (this.isCircuitBreakerOpen()) {
-        this.debugLog('warning', '🚫 Circuit Breaker Open - Waiting', {
-          openUntil: new Date(this.circuitBreakerOpenUntil).toISOString()
-        });
-        await this.delay(1000);
-        continue;
-      }
-
       // Respect concurrent request limit
       if (this.activeRequests.size >= this.config.maxConcurrentRequests) {
         await this.delay(100);
@@ -171,16 +410,17 @@ class ProfessionalRequestScheduler {
         const waitTime = this.calculateRateLimit();
         this.debugLog('info', `⏱️ Rate Limit - Waiting ${waitTime}ms`, {
           currentRPS: this.performanceMetrics.currentRPS,
-          targetRPS: this.config.requestsPerSecond
+          targetRPS: this.currentRateLimit
         });
         await this.delay(waitTime);
         continue;
       }
 
-      const task = this.queue.shift();
+      const task = this.takeNextTask();
       if (!task) {
-        if (this.activeRequests.size === 0) break;
-        await this.delay(100);
+        if (this.queue.length === 0 && this.activeRequests.size === 0) break;
+        // Everything queued is for a paused host or behind an open breaker - sleep until the first one resumes
+        await this.delay(this.queue.length > 0 ? Math.min(this.getResumeDelay(), 1000) : 100);
         continue;
       }
 
@@ -200,9 +440,9 @@ class ProfessionalRequestScheduler {
    * Execute individual request with professional error handling
    */
   private async executeRequest(task: RequestTask) {
-    task.startTime = Date.now();
+    task.startTime = this.clock.now();
     this.activeRequests.set(task.id, task);
-    this.lastRequestTime = Date.now();
+    this.lastRequestTime = this.clock.now();
     this.performanceMetrics.activeConnections = this.activeRequests.size;
 
     this.debugLog('info', `🌐 Executing Request: ${task.id}`, {
@@ -223,28 +463,39 @@ class ProfessionalRequestScheduler {
    * Professional HTTP request execution
    */
   private async makeHttpRequest(task: RequestTask): Promise<any> {
-    const requestBody = {
+    const requestBody: ProxyCallBody = {
       url: task.url,
       method: task.method,
+      ...(task.identity && { identity: task.identity }),
       ...(task.token && { token: task.token }),
-      ...(task.headers && { headers: task.headers })
+      ...(task.headers && { headers: task.headers }),
+      ...(task.timeoutMs && { timeoutMs: task.timeoutMs })
     };
 
-    const response = await fetch('/api/proxy', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+    const response = await this.transport(requestBody, task.controller.signal);
 
     if (!response.ok) {
+      // Surface the proxy's own error (allow-list rejection, timeout, ...) when it sent one
+      const payload = await response.json().catch(() => null);
+      if (payload && typeof payload.message === 'string') {
+        throw createProxyError(response.status, payload);
+      }
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
     const result = await response.json();
+
+    if (THROTTLE_STATUSES.includes(result.status)) {
+      throw new UpstreamThrottleError(
+        result.status,
+        parseRetryAfter(result.headers, this.clock.now()),
+        `API Error ${result.status}: ${result.data?.message || 'Upstream is throttling requests'}`
+      );
+    }
     
-    if (result.status !== 200) {
+    // Only upstream failures are retried and counted by the breakers; other
+    // answers (a 404 for an unknown customer, ...) are the caller's to read
+    if (result.status >= 500) {
       throw new Error(`API Error ${result.status}: ${result.data?.message || 'Unknown error'}`);
     }
 
@@ -255,7 +506,7 @@ class ProfessionalRequestScheduler {
    * Handle successful request completion
    */
   private handleRequestSuccess(task: RequestTask, response: any) {
-    const responseTime = Date.now() - (task.startTime || Date.now());
+    const responseTime = this.clock.now() - (task.startTime || this.clock.now());
     
     this.activeRequests.delete(task.id);
     this.performanceMetrics.completedRequests++;
@@ -264,8 +515,14 @@ class ProfessionalRequestScheduler {
     // Update average response time
     this.updateAverageResponseTime(responseTime);
     
-    // Record success for circuit breaker
-    this.recordSuccess();
+    // Record success for the task's circuit breakers
+    this.recordSuccess(task);
+
+    // A spent rate limit window pauses the host before upstream starts refusing
+    const resetMs = parseRateLimitReset(response.headers, this.clock.now());
+    if (resetMs) {
+      this.pauseHost(hostOf(task.url), resetMs, response.status, 'x-ratelimit');
+    }
 
     this.debugLog('success', `✅ Request Successful: ${task.id}`, {
       responseTime,
@@ -283,14 +540,31 @@ class ProfessionalRequestScheduler {
   private async handleRequestFailure(task: RequestTask, error: Error) {
     this.activeRequests.delete(task.id);
     this.performanceMetrics.activeConnections = this.activeRequests.size;
-    
-    // Record failure for circuit breaker
-    this.recordFailure();
 
+    // Cancelled tasks are neither failures nor retried
+    if (task.controller.signal.aborted || isAbortError(error)) {
+      this.releaseCircuitBreakers(task);
+      this.debugLog('info', `🛑 Task Cancelled: ${task.id}`, { jobId: task.jobId });
+      task.reject(isAbortError(error) ? error : this.createAbortError());
+      this.updateProgress();
+      return;
+    }
+    
     task.retryCount++;
 
-    if (task.retryCount <= task.maxRetries) {
-      const retryDelay = this.calculateRetryDelay(task.retryCount);
+    // Being throttled is not a failure of the host - pause it instead of feeding the circuit breakers.
+    // Neither are proxy rejections, which say nothing about upstream
+    const throttled = this.recordThrottle(task, error);
+    if (!throttled && isRetryableError(error)) {
+      this.recordFailure(task, error);
+    } else {
+      this.releaseCircuitBreakers(task);
+    }
+
+    // Proxy rejections (allow-list, validation) fail the same way every time - only retry the rest
+    if (task.retryCount <= task.maxRetries && isRetryableError(error)) {
+      // Throttled tasks go straight back in the queue; the host pause holds them
+      const retryDelay = throttled ? 0 : this.calculateRetryDelay(task.retryCount);
       
       this.debugLog('warning', `🔄 Retrying Request: ${task.id}`, {
         attempt: task.retryCount,
@@ -300,8 +574,12 @@ class ProfessionalRequestScheduler {
       });
 
       // Re-queue with delay
-      setTimeout(() => {
+      this.clock.setTimeout(() => {
+        if (task.controller.signal.aborted) return;
         this.insertByPriority(task);
+        if (!this.isProcessing) {
+          this.startProcessing();
+        }
       }, retryDelay);
     } else {
       this.performanceMetrics.failedRequests++;
@@ -317,6 +595,128 @@ class ProfessionalRequestScheduler {
     this.updateProgress();
   }
 
+  /**
+   * Pauses the task's host when the error says upstream or the proxy is
+   * throttling us
+   * 
+   * @returns Whether the error was a throttle
+   */
+  private recordThrottle(task: RequestTask, error: Error): boolean {
+    if (error instanceof UpstreamThrottleError) {
+      const waitMs = error.retryAfterMs ?? this.calculateRetryDelay(task.retryCount);
+      this.pauseHost(hostOf(task.url), waitMs, error.status, error.retryAfterMs !== null ? 'retry-after' : 'backoff');
+      return true;
+    }
+
+    const proxyWaitMs = getRetryAfterMs(error);
+    if (proxyWaitMs > 0 && error instanceof ProxyRequestError) {
+      // The proxy's per-user budget covers every host
+      const host = error.details?.scope === 'user' ? ALL_HOSTS : hostOf(task.url);
+      this.pauseHost(host, proxyWaitMs, error.status, 'proxy');
+      return true;
+    }
+
+    return false;
+  }
+
+  private pauseHost(host: string, waitMs: number, status: number, source: ThrottleEvent['source']) {
+    const now = this.clock.now();
+    this.hostPausedUntil.set(host, Math.max(this.hostPausedUntil.get(host) || 0, now + waitMs));
+    this.performanceMetrics.throttleEvents++;
+
+    const event: ThrottleEvent = { host, status, waitMs: Math.round(waitMs), source, at: now };
+    this.debugLog('warning', `⏸️ Host Throttled: ${host}`, event);
+    this.throttleListeners.forEach(listener => listener(event));
+    this.adaptRateLimit(0.5);
+  }
+
+  /**
+   * Scales the rate by `factor` when adaptive rate limiting is on, or steps it
+   * back towards requestsPerSecond without one. Stays between the floor and
+   * the configured rate.
+   */
+  private adaptRateLimit(factor?: number) {
+    if (!this.config.adaptiveRateLimit) return;
+
+    const { requestsPerSecond } = this.config;
+    const next = factor !== undefined
+      ? this.currentRateLimit * factor
+      : this.currentRateLimit + requestsPerSecond / ADAPTIVE_RECOVERY_STEPS;
+    const clamped = Math.min(requestsPerSecond, Math.max(requestsPerSecond * ADAPTIVE_MIN_RATE_FACTOR, next));
+    if (clamped === this.currentRateLimit) return;
+
+    this.currentRateLimit = clamped;
+    this.debugLog('info', `🎚️ Rate Limit Adjusted: ${clamped.toFixed(2)} req/s`, { requestsPerSecond });
+  }
+
+  private isHostPaused(host: string, now: number): boolean {
+    return (this.hostPausedUntil.get(host) || 0) > now || (this.hostPausedUntil.get(ALL_HOSTS) || 0) > now;
+  }
+
+  /**
+   * Removes the highest priority task whose host is not paused and whose
+   * breakers let it through
+   */
+  private takeNextTask(): RequestTask | undefined {
+    const now = this.clock.now();
+    const index = this.queue.findIndex(task =>
+      !this.isHostPaused(hostOf(task.url), now) &&
+      this.getCircuitBreakersFor(task).every(breaker => breaker.canRequest(now))
+    );
+    if (index === -1) return undefined;
+
+    const [task] = this.queue.splice(index, 1);
+    this.getCircuitBreakersFor(task).forEach(breaker => breaker.beginRequest(now));
+    return task;
+  }
+
+  /**
+   * Time until the earliest paused host resumes or open breaker starts probing
+   */
+  private getResumeDelay(): number {
+    const now = this.clock.now();
+    const resumes = [
+      ...Array.from(this.hostPausedUntil.values()),
+      ...Array.from(this.circuitBreakers.values()).map(breaker => breaker.getOpenUntil(now))
+    ].filter(until => until > now);
+    return resumes.length > 0 ? Math.min(...resumes) - now : 100;
+  }
+
+  /**
+   * The task's host breaker and endpoint breaker, created on first use
+   */
+  private getCircuitBreakersFor(task: RequestTask): CircuitBreaker[] {
+    const options = {
+      threshold: this.config.circuitBreakerThreshold,
+      minRequests: this.config.circuitBreakerMinRequests,
+      cooldownMs: this.config.circuitBreakerCooldownMs,
+      windowMs: CIRCUIT_WINDOW_MS
+    };
+    const keys = [
+      { key: hostOf(task.url), scope: 'host' as const },
+      { key: getEndpointTemplate(task.method, task.url), scope: 'endpoint' as const }
+    ];
+
+    return keys.map(({ key, scope }) => {
+      let breaker = this.circuitBreakers.get(key);
+      if (!breaker) {
+        breaker = new CircuitBreaker(key, scope, options);
+        this.circuitBreakers.set(key, breaker);
+      }
+      return breaker;
+    });
+  }
+
+  private releaseCircuitBreakers(task: RequestTask) {
+    this.getCircuitBreakersFor(task).forEach(breaker => breaker.releaseRequest());
+  }
+
+  private notifyCircuitChange() {
+    this.performanceMetrics.circuitBreakerOpen = Array.from(this.circuitBreakers.values())
+      .some(breaker => breaker.getState(this.clock.now()) !== 'closed');
+    this.circuitListeners.forEach(listener => listener());
+  }
+
   /**
    * Professional priority queue insertion
    */
@@ -339,9 +739,9 @@ class ProfessionalRequestScheduler {
    * Adaptive rate limiting calculation
    */
   private canMakeRequest(): boolean {
-    const now = Date.now();
+    const now = this.clock.now();
     const timeSinceLastRequest = now - this.lastRequestTime;
-    const minInterval = 1000 / this.config.requestsPerSecond;
+    const minInterval = 1000 / this.currentRateLimit;
 
     return timeSinceLastRequest >= minInterval;
   }
@@ -350,9 +750,9 @@ class ProfessionalRequestScheduler {
    * Calculate optimal wait time for rate limiting
    */
   private calculateRateLimit(): number {
-    const now = Date.now();
+    const now = this.clock.now();
     const timeSinceLastRequest = now - this.lastRequestTime;
-    const minInterval = 1000 / this.config.requestsPerSecond;
+    const minInterval = 1000 / this.currentRateLimit;
 
     return Math.max(0, minInterval - timeSinceLastRequest);
   }
@@ -369,52 +769,49 @@ class ProfessionalRequestScheduler {
   }
 
   /**
-   * Circuit breaker pattern implementation
+   * Record request failure for the task's circuit breakers
    */
-  private isCircuitBreakerOpen(): boolean {
-    const now = Date.now();
-    
-    if (this.circuitBreakerOpenUntil > now) {
-      this.performanceMetrics.circuitBreakerOpen = true;
-      return true;
-    }
-
-    this.performanceMetrics.circuitBreakerOpen = false;
-    return false;
-  }
+  private recordFailure(task: RequestTask, error: Error) {
+    const now = this.clock.now();
+    let changed = false;
+
+    this.getCircuitBreakersFor(task).forEach(breaker => {
+      const wasHalfOpen = breaker.getState(now) === 'half-open';
+      if (breaker.recordFailure(error.message, now)) {
+        changed = true;
+        this.debugLog('warning', wasHalfOpen ? `🚫 Circuit Probe Failed: ${breaker.key}` : `🚫 Circuit Breaker Opened: ${breaker.key}`, {
+          scope: breaker.scope,
+          threshold: this.config.circuitBreakerThreshold,
+          cooldownMs: this.config.circuitBreakerCooldownMs
+        });
+      }
+    });
 
-  /**
-   * Record request failure for circuit breaker
-   */
-  private recordFailure() {
-    const now = Date.now();
-    this.failureHistory.push(now);
-    
-    // Keep only last 60 seconds of failures
-    this.failureHistory = this.failureHistory.filter(time => now - time < 60000);
-    
-    // Open circuit breaker if failure rate exceeds threshold
-    const totalRecent = this.completedRequests.filter(time => now - parseInt(time) < 60000).length + this.failureHistory.length;
-    const failureRate = totalRecent > 0 ? this.failureHistory.length / totalRecent : 0;
-    
-    if (failureRate > this.config.circuitBreakerThreshold) {
-      this.circuitBreakerOpenUntil = now + 30000; // Open for 30 seconds
-      this.debugLog('warning', '🚫 Circuit Breaker Opened', {
-        failureRate,
-        threshold: this.config.circuitBreakerThreshold
-      });
-    }
+    if (changed) this.notifyCircuitChange();
   }
 
   /**
-   * Record request success for circuit breaker
+   * Record request success for RPS tracking and the task's circuit breakers
    */
-  private recordSuccess() {
-    const now = Date.now();
+  private recordSuccess(task: RequestTask) {
+    const now = this.clock.now();
     this.completedRequests.push(now.toString());
     
     // Keep only last 60 seconds of successes
     this.completedRequests = this.completedRequests.filter(time => now - parseInt(time) < 60000);
+    this.adaptRateLimit();
+
+    let changed = false;
+    this.getCircuitBreakersFor(task).forEach(breaker => {
+      const wasHalfOpen = breaker.getState(now) === 'half-open';
+      breaker.recordSuccess(now);
+      if (wasHalfOpen) {
+        changed = true;
+        this.debugLog('success', `🔌 Circuit Breaker Closed: ${breaker.key}`, { scope: breaker.scope });
+      }
+    });
+
+    if (changed) this.notifyCircuitChange();
   }
 
   /**
@@ -430,7 +827,7 @@ class ProfessionalRequestScheduler {
    */
   private updateProgress() {
     // Calculate current RPS
-    const now = Date.now();
+    const now = this.clock.now();
     const recentRequests = this.completedRequests.filter(time => now - parseInt(time) < 1000);
     this.performanceMetrics.currentRPS = recentRequests.length;
 
@@ -448,11 +845,15 @@ class ProfessionalRequestScheduler {
    * Utility functions
    */
   private generateTaskId(): string {
-    return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `task_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private createAbortError(): Error {
+    return new DOMException('Request cancelled', 'AbortError');
   }
 
   private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise(resolve => this.clock.setTimeout(resolve, ms));
   }
 
   /**
@@ -463,14 +864,17 @@ class ProfessionalRequestScheduler {
   }
 
   /**
-   * Reset scheduler state
+   * Reset scheduler state. Pending tasks are cancelled so their callers
+   * are not left waiting.
    */
   reset() {
+    Array.from(this.pendingTasks.values()).forEach(task => task.controller.abort());
     this.queue = [];
     this.activeRequests.clear();
     this.completedRequests = [];
-    this.failureHistory = [];
-    this.circuitBreakerOpenUntil = 0;
+    this.circuitBreakers.clear();
+    this.hostPausedUntil.clear();
+    this.currentRateLimit = this.config.requestsPerSecond;
     this.performanceMetrics = {
       totalRequests: 0,
       completedRequests: 0,
@@ -478,8 +882,10 @@ class ProfessionalRequestScheduler {
       averageResponseTime: 0,
       currentRPS: 0,
       activeConnections: 0,
-      circuitBreakerOpen: false
+      circuitBreakerOpen: false,
+      throttleEvents: 0
     };
+    this.notifyCircuitChange();
   }
 
   /**
@@ -506,6 +912,8 @@ export const professionalScheduler = new ProfessionalRequestScheduler({
   requestsPerSecond: 4,
   adaptiveRateLimit: true,
   circuitBreakerThreshold: 0.4,
+  circuitBreakerMinRequests: 5,
+  circuitBreakerCooldownMs: 30000,
   retryDelay: 800,
   maxRetryDelay: 25000
 });
\ No newline at end of file
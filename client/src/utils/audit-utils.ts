@@ -0,0 +1,77 @@
+/**
+ * Audit Utility Functions
+ *
+ * This module provides helpers for reviewing and exporting the proxy audit log
+ */
+
+import type { AuditEntry, AuditQuery } from "@shared/schema";
+
+/**
+ * Quotes a value for CSV when it contains commas, quotes or line breaks
+ *
+ * @param value - Value to write into a CSV cell
+ * @returns Escaped cell content
+ */
+export const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Exports audit entries to CSV format
+ *
+ * @param entries - Audit entries to export
+ * @returns CSV content as string
+ */
+export const exportAuditToCSV = (entries: AuditEntry[]): string => {
+  const headers = [
+    'Time',
+    'User',
+    'Method',
+    'URL',
+    'Customer ID',
+    'Order ID',
+    'Identity',
+    'Upstream Status',
+    'Error',
+    'Response Time (ms)',
+    'Body',
+  ];
+
+  const rows = entries.map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    entry.username,
+    entry.method,
+    entry.url,
+    entry.customerId,
+    entry.orderId,
+    entry.identity,
+    entry.upstreamStatus,
+    entry.errorCode,
+    entry.responseTime,
+    entry.body,
+  ].map(escapeCsvValue).join(','));
+
+  return [headers.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Builds the /api/audit URL for a set of filters, leaving out empty ones
+ *
+ * @param filters - Audit filters
+ * @returns URL with query string
+ */
+export const buildAuditUrl = (filters: AuditQuery): string => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value instanceof Date) {
+      params.set(key, value.toISOString());
+    } else if (value) {
+      params.set(key, String(value));
+    }
+  });
+
+  const query = params.toString();
+  return query ? `/api/audit?${query}` : '/api/audit';
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { getDownloadFilename } from "./binary-utils";
+
+describe("getDownloadFilename", () => {
+  it("decodes an encoded filename* value", () => {
+    expect(getDownloadFilename({ 'content-disposition': "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf" }))
+      .toBe('résumé.pdf');
+  });
+
+  it("keeps the raw value when its percent-encoding is malformed", () => {
+    expect(getDownloadFilename({ 'content-disposition': "attachment; filename*=UTF-8''%E0%A4%A.pdf" }))
+      .toBe('%E0%A4%A.pdf');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Binary Utility Functions
+ *
+ * This module provides helpers for working with binary API responses
+ * such as PDF invoices and images, and with files uploaded in request bodies
+ */
+
+import type { ApiResponse } from "@shared/schema";
+
+/**
+ * Checks whether a response carries a binary body
+ *
+ * @param response - API response to inspect
+ * @returns True if the body is base64 or Blob encoded
+ */
+export const isBinaryResponse = (response: ApiResponse): boolean => {
+  return response.encoding === 'base64' || response.encoding === 'blob';
+};
+
+/**
+ * Converts a base64 string into a Blob
+ *
+ * @param base64 - Base64 encoded data
+ * @param contentType - MIME type of the data
+ * @returns Blob containing the decoded bytes
+ */
+export const base64ToBlob = (base64: string, contentType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: contentType });
+};
+
+/**
+ * Reads a file as a base64 string (without the data URL prefix)
+ *
+ * @param file - File picked by the user
+ * @returns Promise resolving to the base64 encoded content
+ */
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Returns the body of a binary response as a Blob
+ *
+ * @param response - API response with base64 or Blob encoding
+ * @returns Blob, or null if the response is not binary
+ */
+export const getResponseBlob = (response: ApiResponse): Blob | null => {
+  const contentType = response.headers['content-type'] || 'application/octet-stream';
+
+  if (response.encoding === 'blob' && response.data instanceof Blob) {
+    return response.data;
+  }
+  if (response.encoding === 'base64' && typeof response.data === 'string') {
+    return base64ToBlob(response.data, contentType);
+  }
+  return null;
+};
+
+/**
+ * Works out a download filename from Content-Disposition or the request URL
+ *
+ * @param headers - Response headers
+ * @param url - Request URL used as a fallback
+ * @returns Filename for the download
+ *
+ * @example
+ * getDownloadFilename({ 'content-disposition': 'attachment; filename="inv.pdf"' }, '')
+ * // Returns: 'inv.pdf'
+ */
+export const getDownloadFilename = (headers: Record<string, string>, url?: string): string => {
+  const disposition = headers['content-disposition'];
+  const match = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (match) {
+    try {
+      return decodeURIComponent(match[1]);
+    } catch {
+      // Malformed percent-encoding - the raw value still names the file
+      return match[1];
+    }
+  }
+
+  if (url) {
+    try {
+      const lastSegment = new URL(url).pathname.split('/').filter(Boolean).pop();
+      if (lastSegment) return lastSegment;
+    } catch {
+      // Fall through to the generic name
+    }
+  }
+
+  const extension = (headers['content-type'] || '').split(';')[0].split('/')[1];
+  return extension ? `response.${extension}` : 'response.bin';
+};
+
+/**
+ * Triggers a browser download for a Blob
+ *
+ * @param blob - Data to download
+ * @param filename - Name of the downloaded file
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(objectUrl);
+};
@@ -7,4 +7,6 @@
 export * from './url-utils';
 export * from './currency-utils';
 export * from './date-utils';
-export * from './export-utils';
\ No newline at end of file
+export * from './export-utils';
+export * from './binary-utils';
+export * from './audit-utils';
\ No newline at end of file
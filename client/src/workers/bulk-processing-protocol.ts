@@ -0,0 +1,97 @@
+/**
+ * Bulk Processing Worker Protocol
+ *
+ * Messages exchanged between useBulkProcessing and the bulk processing
+ * worker. The page starts, pauses and stops runs; the worker fetches the
+ * profiles and reports progress, each profile found and how the run ended.
+ * Run messages carry the run they belong to so late messages from an
+ * earlier run can be ignored. Scheduler messages describe the worker's
+ * request scheduler and cache, which every run's calls go through.
+ */
+
+import type { CustomerProfile } from "@shared/schema";
+import type { CircuitBreakerStatus } from "@/services/circuit-breaker";
+import type { RequestCacheStats } from "@/services/request-cache";
+import type { PerformanceMetrics, ThrottleEvent } from "@/services/request-scheduler";
+
+export interface BulkWorkerSettings {
+  batchSize: number;
+  retryAttempts: number;
+  delayBetweenBatches: number;
+}
+
+export interface BulkFailure {
+  customerId: string;
+  error: string;
+  attempt: number;
+}
+
+export type BulkWorkerRequest =
+  | {
+      type: 'start';
+      runId: number;
+      customerIds: string[];
+      identity: string;
+      /** Customers already collected; they are skipped as duplicates */
+      existingCustomerIds: string[];
+      settings: BulkWorkerSettings;
+      /** Batch times of the run being resumed, for the time estimates */
+      previousBatchTimes: number[];
+    }
+  /** Stop after the current batch */
+  | { type: 'pause'; runId: number }
+  /** Stop now, cancelling the calls in flight */
+  | { type: 'stop'; runId: number }
+  /** Close one of the scheduler's circuit breakers, or all without a key */
+  | { type: 'reset-circuit-breaker'; key?: string };
+
+/**
+ * Totals for the run so far; counts cover this run's customer IDs only
+ */
+export interface BulkWorkerProgress {
+  processedItems: number;
+  successfulItems: number;
+  failedItems: number;
+  duplicateItems: number;
+  completedBatches: number;
+  totalBatches: number;
+  averageBatchTime: number;
+  estimatedTimeRemaining: number;
+  errors: BulkFailure[];
+}
+
+/**
+ * How a run ended: all IDs processed, paused between batches, or stopped
+ * mid-batch (that batch's IDs count as remaining)
+ */
+export type BulkWorkerOutcome = 'completed' | 'paused' | 'stopped';
+
+/**
+ * Snapshot of the worker's scheduler and request cache
+ */
+export interface BulkSchedulerStatus {
+  metrics: PerformanceMetrics;
+  /** Breakers that are not closed or have recent failures */
+  circuitBreakers: CircuitBreakerStatus[];
+  cacheStats: RequestCacheStats;
+}
+
+export type BulkWorkerEvent =
+  | { type: 'progress'; runId: number; progress: BulkWorkerProgress }
+  | { type: 'profile'; runId: number; profile: CustomerProfile }
+  | { type: 'log'; runId: number; level: string; message: string; data?: any }
+  | {
+      type: 'finished';
+      runId: number;
+      outcome: BulkWorkerOutcome;
+      /** Profiles of the batches that completed */
+      profiles: CustomerProfile[];
+      processedCustomerIds: string[];
+      remainingCustomerIds: string[];
+      batchTimes: number[];
+    }
+  | { type: 'failed'; runId: number; message: string }
+  /** Sent while a run is going and whenever a breaker changes */
+  | { type: 'scheduler'; status: BulkSchedulerStatus }
+  /** A host the scheduler paused for a 429/503 */
+  | { type: 'throttle'; event: ThrottleEvent };
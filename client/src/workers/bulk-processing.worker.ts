@@ -0,0 +1,307 @@
+/**
+ * Bulk Processing Worker
+ *
+ * Runs bulk customer ID processing off the main thread: batching, the
+ * concurrent profile fetches with their retries, and collecting results.
+ * The calls go through this worker's own request scheduler and cache, whose
+ * state is reported back as scheduler messages. The page only receives the
+ * messages described in bulk-processing-protocol.
+ */
+
+import { BrandsForLessService } from "@/services/api-service";
+import { isAbortError } from "@/services/proxy-errors";
+import { professionalScheduler } from "@/services/request-scheduler";
+import type { CustomerProfile } from "@shared/schema";
+import type {
+  BulkFailure,
+  BulkSchedulerStatus,
+  BulkWorkerEvent,
+  BulkWorkerOutcome,
+  BulkWorkerRequest,
+  BulkWorkerSettings,
+} from "./bulk-processing-protocol";
+
+type StartRequest = Extract<BulkWorkerRequest, { type: 'start' }>;
+
+interface ActiveRun {
+  runId: number;
+  controller: AbortController;
+  shouldPause: boolean;
+}
+
+// How often scheduler status is sent while a run is going or a breaker is tripped
+const STATUS_INTERVAL_MS = 500;
+
+let activeRun: ActiveRun | null = null;
+
+const post = (event: BulkWorkerEvent) => self.postMessage(event);
+
+const isAbort = (error: unknown, signal: AbortSignal): boolean =>
+  signal.aborted || isAbortError(error);
+
+/**
+ * Waits `ms`, rejecting with the abort reason as soon as `signal` fires, so
+ * Stop does not wait out a backoff
+ */
+const abortableDelay = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const postSchedulerStatus = () => {
+  const status: BulkSchedulerStatus = {
+    metrics: professionalScheduler.getMetrics(),
+    circuitBreakers: professionalScheduler.getCircuitBreakers(),
+    cacheStats: BrandsForLessService.getCacheStats(),
+  };
+  post({ type: 'scheduler', status });
+};
+
+professionalScheduler.onThrottle(event => post({ type: 'throttle', event }));
+professionalScheduler.onCircuitChange(postSchedulerStatus);
+
+// Open breakers turn half-open on a timer without an event, so keep reporting until they close
+setInterval(() => {
+  const tripped = professionalScheduler.getCircuitBreakers().some(breaker => breaker.state !== 'closed');
+  if (activeRun || tripped) postSchedulerStatus();
+}, STATUS_INTERVAL_MS);
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Fetches one customer's profile, retrying with exponential backoff.
+ * Resolves null for customers without usable data or whose attempts all failed.
+ */
+async function fetchProfile(
+  customerId: string,
+  identity: string,
+  settings: BulkWorkerSettings,
+  signal: AbortSignal,
+  log: (level: string, message: string, data?: any) => void,
+  failures: BulkFailure[]
+): Promise<CustomerProfile | null> {
+  for (let attempt = 1; attempt <= settings.retryAttempts; attempt++) {
+    signal.throwIfAborted();
+
+    try {
+      log('info', `🔄 Processing Customer ${customerId}`, {
+        attempt,
+        maxAttempts: settings.retryAttempts
+      });
+
+      // The scheduler paces the calls and waits out 429s; the signal cancels them when processing stops
+      const profile = await BrandsForLessService.fetchCustomerProfile(customerId, identity, { signal, scheduled: true });
+      signal.throwIfAborted();
+
+      if (!profile) {
+        // Skip customers with no valid data - don't treat as error
+        log('info', `⏭️ Skipped: ${customerId}`, {
+          reason: 'No valid customer data found'
+        });
+        return null;
+      }
+
+      log('success', `✅ Profile Fetched: ${customerId}`, {
+        customerName: profile.fullName,
+        totalOrders: profile.totalOrdersCount,
+        totalValue: profile.totalPurchasesAmount
+      });
+      return profile;
+    } catch (error) {
+      if (isAbort(error, signal)) throw error;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      log('warning', `⚠️ Attempt ${attempt} Failed: ${customerId}`, {
+        error: errorMessage,
+        willRetry: attempt < settings.retryAttempts
+      });
+
+      if (attempt === settings.retryAttempts) {
+        failures.push({ customerId, error: errorMessage, attempt });
+        log('error', `❌ All Attempts Failed: ${customerId}`, {
+          finalError: errorMessage,
+          totalAttempts: attempt
+        });
+      } else {
+        // Exponential backoff for retries
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        await abortableDelay(delay, signal);
+      }
+    }
+  }
+  return null;
+}
+
+async function runBulk(request: StartRequest) {
+  const { runId, customerIds, identity, settings } = request;
+  const run: ActiveRun = { runId, controller: new AbortController(), shouldPause: false };
+  activeRun = run;
+
+  const log = (level: string, message: string, data?: any) => post({ type: 'log', runId, level, message, data });
+  const signal = run.controller.signal;
+  const existingCustomerIds = new Set(request.existingCustomerIds);
+  const totalBatches = Math.ceil(customerIds.length / settings.batchSize);
+  const batchTimes = [...request.previousBatchTimes];
+  const profiles: CustomerProfile[] = [];
+  const errors: BulkFailure[] = [];
+  let duplicates = 0;
+  let processed = 0;
+
+  const finish = (outcome: BulkWorkerOutcome) => post({
+    type: 'finished',
+    runId,
+    outcome,
+    profiles,
+    processedCustomerIds: customerIds.slice(0, processed),
+    remainingCustomerIds: customerIds.slice(processed),
+    batchTimes
+  });
+
+  log('info', '🚀 Bulk Processing Started', {
+    totalCustomers: customerIds.length,
+    batchSize: settings.batchSize,
+    totalBatches,
+    existingProfiles: existingCustomerIds.size
+  });
+
+  try {
+    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
+      if (signal.aborted) {
+        finish('stopped');
+        return;
+      }
+      if (run.shouldPause) {
+        log('info', '⏸️ Processing Paused at Checkpoint', {
+          processedSoFar: profiles.length,
+          remainingItems: customerIds.length - processed,
+          batchIndex
+        });
+        finish('paused');
+        return;
+      }
+
+      const batchStart = batchIndex * settings.batchSize;
+      const batchEnd = Math.min(batchStart + settings.batchSize, customerIds.length);
+      const batchIds = customerIds.slice(batchStart, batchEnd);
+
+      log('info', `📦 Processing Batch ${batchIndex + 1}/${totalBatches}`, {
+        batchSize: batchIds.length,
+        customerIds: batchIds,
+        progress: `${batchStart + 1}-${batchEnd} of ${customerIds.length}`
+      });
+
+      const batchStartTime = Date.now();
+      const batchProfiles: CustomerProfile[] = [];
+      const batchFailures: BulkFailure[] = [];
+      let batchDuplicates = 0;
+
+      const results = await Promise.allSettled(batchIds.map(async (customerId) => {
+        // Duplicate detection against profiles collected so far
+        if (existingCustomerIds.has(customerId)) {
+          batchDuplicates++;
+          log('info', '🔍 Duplicate Detected', { customerId, action: 'skipped' });
+          return;
+        }
+
+        const profile = await fetchProfile(customerId, identity, settings, signal, log, batchFailures);
+        if (profile) {
+          batchProfiles.push(profile);
+          existingCustomerIds.add(customerId); // Prevent duplicates within same run
+          post({ type: 'profile', runId, profile });
+        }
+      }));
+
+      if (signal.aborted || results.some(result => result.status === 'rejected' && isAbort(result.reason, signal))) {
+        log('info', '⏸️ Batch processing aborted - creating checkpoint', {
+          batchIndex: batchIndex + 1,
+          currentResults: profiles.length
+        });
+        finish('stopped');
+        return;
+      }
+
+      const batchTime = Date.now() - batchStartTime;
+      batchTimes.push(batchTime);
+      profiles.push(...batchProfiles);
+      errors.push(...batchFailures);
+      duplicates += batchDuplicates;
+      processed = batchEnd;
+
+      post({
+        type: 'progress',
+        runId,
+        progress: {
+          processedItems: processed,
+          successfulItems: profiles.length,
+          failedItems: errors.length,
+          duplicateItems: duplicates,
+          completedBatches: batchIndex + 1,
+          totalBatches,
+          averageBatchTime: average(batchTimes),
+          estimatedTimeRemaining: (totalBatches - batchIndex - 1) * average(batchTimes),
+          errors
+        }
+      });
+
+      log('success', `✅ Batch ${batchIndex + 1} Completed`, {
+        processedInBatch: batchIds.length,
+        successfulInBatch: batchProfiles.length,
+        failedInBatch: batchFailures.length,
+        duplicatesInBatch: batchDuplicates,
+        batchTime,
+        totalProgress: `${batchEnd}/${customerIds.length}`
+      });
+
+      // Small delay between batches to respect rate limits
+      if (batchIndex < totalBatches - 1 && settings.delayBetweenBatches > 0) {
+        await abortableDelay(settings.delayBetweenBatches, signal);
+      }
+    }
+
+    finish('completed');
+  } catch (error) {
+    // Stopped while waiting between batches
+    if (isAbort(error, signal)) {
+      finish('stopped');
+    } else {
+      post({ type: 'failed', runId, message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  } finally {
+    postSchedulerStatus();
+    if (activeRun === run) activeRun = null;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<BulkWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      // One run at a time - a new run replaces one still going
+      activeRun?.controller.abort();
+      runBulk(request);
+      break;
+    case 'pause':
+      if (activeRun?.runId === request.runId) activeRun.shouldPause = true;
+      break;
+    case 'stop':
+      if (activeRun?.runId === request.runId) activeRun.controller.abort();
+      break;
+    case 'reset-circuit-breaker':
+      professionalScheduler.resetCircuitBreaker(request.key);
+      break;
+  }
+});
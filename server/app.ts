@@ -0,0 +1,60 @@
+import express, { type Express, type Request, Response, NextFunction } from "express";
+import { type Server } from "http";
+import { registerRoutes } from "./routes";
+import { cors } from "./cors";
+import { log } from "./log";
+
+/**
+ * Builds the Express app with every /api route. The dev/production server
+ * (server/index.ts) and the Vercel function (server/vercel.ts) both start
+ * from here, so the two deployments run the same proxy, auth and guards.
+ */
+export async function createApp(): Promise<{ app: Express; server: Server }> {
+  const app = express();
+  // Multipart uploads arrive base64 encoded inside the JSON proxy request
+  app.use(express.json({ limit: "10mb" }));
+  app.use(express.urlencoded({ extended: false }));
+  app.use("/api", cors);
+
+  app.use((req, res, next) => {
+    const start = Date.now();
+    const path = req.path;
+    let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+    // Minimal logging only for errors
+
+    const originalResJson = res.json;
+    res.json = function (bodyJson, ...args) {
+      capturedJsonResponse = bodyJson;
+      return originalResJson.apply(res, [bodyJson, ...args]);
+    };
+
+    res.on("finish", () => {
+      const duration = Date.now() - start;
+      if (path.startsWith("/api")) {
+        // Only log basic info for performance
+        let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+
+        if (logLine.length > 80) {
+          logLine = logLine.slice(0, 79) + "…";
+        }
+
+        log(logLine);
+      }
+    });
+
+    next();
+  });
+
+  const server = await registerRoutes(app);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    const message = err.message || "Internal Server Error";
+
+    res.status(status).json({ message });
+    throw err;
+  });
+
+  return { app, server };
+}
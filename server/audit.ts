@@ -0,0 +1,85 @@
+import type { ApiRequest, PublicUser } from "@shared/schema";
+import { storage } from "./storage";
+import { describeRequestBody } from "./request-body";
+
+/**
+ * Methods that only read data and are left out of the audit log
+ */
+const UNAUDITED_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export function isAuditedMethod(method: string): boolean {
+  return !UNAUDITED_METHODS.includes(method);
+}
+
+/**
+ * Placeholder IDs the Brands for Less API uses for "any"
+ */
+const EMPTY_IDS = ["", "-1", "0"];
+
+function cleanId(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const id = String(value).trim();
+  return EMPTY_IDS.includes(id) ? null : id;
+}
+
+/**
+ * Works out which customer and order a request is about, from
+ * `customerId`/`orderId` query parameters, `/customer/{id}` and
+ * `/order/{id}` path segments, or the same fields in a JSON body
+ */
+export function extractAuditTarget(url: string, body?: string): { customerId: string | null; orderId: string | null } {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const segmentAfter = (name: string, pattern: RegExp) => {
+    const index = segments.lastIndexOf(name);
+    const next = index >= 0 ? segments[index + 1] : undefined;
+    return next && pattern.test(next) ? decodeURIComponent(next) : null;
+  };
+  const queryParam = (name: string) => {
+    const key = Array.from(parsed.searchParams.keys()).find((candidate) => candidate.toLowerCase() === name);
+    return key ? cleanId(parsed.searchParams.get(key)) : null;
+  };
+
+  let bodyFields: Record<string, unknown> = {};
+  if (body) {
+    try {
+      const json = JSON.parse(body);
+      if (json && typeof json === "object") bodyFields = json;
+    } catch {
+      // Not JSON - nothing to read from it
+    }
+  }
+
+  return {
+    customerId: queryParam("customerid") ?? segmentAfter("customer", /^\d+$/) ?? cleanId(bodyFields.customerId),
+    orderId: queryParam("orderid") ?? segmentAfter("order", /^[\w-]+$/) ?? cleanId(bodyFields.orderId),
+  };
+}
+
+export interface AuditOutcome {
+  upstreamStatus: number | null;
+  errorCode: string | null;
+  responseTime: number;
+}
+
+/**
+ * Appends an entry for a mutating proxy request. A failed write is logged
+ * rather than thrown so it never changes what the caller gets back.
+ */
+export async function recordAuditEntry(request: ApiRequest, user: PublicUser, outcome: AuditOutcome): Promise<void> {
+  const body = describeRequestBody(request);
+  try {
+    await storage.appendAuditEntry({
+      userId: user.id,
+      username: user.username,
+      method: request.method,
+      url: request.url,
+      body: body ?? null,
+      identity: request.identity ?? null,
+      ...extractAuditTarget(request.url, body),
+      ...outcome,
+    });
+  } catch (error) {
+    console.error("Failed to write audit entry:", error);
+  }
+}
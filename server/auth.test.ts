@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { assertSharedStateConfig } from "./auth";
+
+describe("assertSharedStateConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("names every missing setting", () => {
+    vi.stubEnv("SESSION_SECRET", "");
+    vi.stubEnv("DATABASE_URL", "");
+
+    expect(() => assertSharedStateConfig()).toThrow("SESSION_SECRET and DATABASE_URL must be set");
+  });
+
+  it("refuses a shared store without a fixed secret", () => {
+    vi.stubEnv("SESSION_SECRET", "");
+    vi.stubEnv("DATABASE_URL", "postgres://db.test/app");
+
+    expect(() => assertSharedStateConfig()).toThrow("SESSION_SECRET must be set");
+  });
+
+  it("passes once both are set", () => {
+    vi.stubEnv("SESSION_SECRET", "secret");
+    vi.stubEnv("DATABASE_URL", "postgres://db.test/app");
+
+    expect(() => assertSharedStateConfig()).not.toThrow();
+  });
+});
@@ -0,0 +1,256 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import {
+  insertUserSchema,
+  hasRole,
+  USER_ROLES,
+  type User as SelectUser,
+  type PublicUser,
+  type UserRole,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    // The password hash never leaves the login - sessions only carry the public fields
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPgSimple(session);
+
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Hashes a password as "<hex hash>.<hex salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: PublicUser & { password?: string }): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Rejects requests without a logged-in session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Authentication required" });
+}
+
+/**
+ * Rejects requests from users below `role`
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasRole(req.user.role, role)) {
+      return res.status(403).json({ message: `This action requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Serverless instances come and go and share no memory, so sessions, users,
+ * vault tokens and audit entries must all live in Postgres, and sessions need
+ * a fixed secret. Throws when either is missing, so a misconfigured deployment
+ * fails at startup instead of splitting its state across instances.
+ */
+export function assertSharedStateConfig() {
+  const missing = ["SESSION_SECRET", "DATABASE_URL"].filter((name) => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(" and ")} must be set to run as a serverless function`);
+  }
+}
+
+/**
+ * Sessions live in Postgres when DATABASE_URL is set, so every instance
+ * sees them and they survive restarts. Otherwise they are kept in memory.
+ */
+async function createSessionStore(): Promise<session.Store> {
+  if (!process.env.DATABASE_URL) {
+    return new MemoryStore({ checkPeriod: SESSION_MAX_AGE_MS });
+  }
+  // Imported lazily since db.ts refuses to load without DATABASE_URL
+  const { pool } = await import("./db");
+  return new PostgresSessionStore({ pool, createTableIfMissing: true });
+}
+
+/**
+ * Sets up session cookies, the passport local strategy and the
+ * /api/register, /api/login, /api/logout, /api/user and /api/users routes.
+ *
+ * Anyone may register the first account, which becomes a supervisor; after
+ * that only supervisors can create accounts and change roles.
+ */
+export async function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret) {
+    console.warn("SESSION_SECRET is not set - sessions will not survive a restart");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: sessionSecret || randomBytes(32).toString("hex"),
+      resave: false,
+      saveUninitialized: false,
+      store: await createSessionStore(),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  // The user is read fresh on every request, so role changes apply at once and
+  // a session whose user storage no longer knows is logged out
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const isFirstUser = (await storage.listUsers()).length === 0;
+      if (!isFirstUser && !req.isAuthenticated()) {
+        return res.status(403).json({ message: "Ask a supervisor to create your account" });
+      }
+      if (!isFirstUser && !hasRole(req.user!.role, "supervisor")) {
+        return res.status(403).json({ message: "Only supervisors can create accounts" });
+      }
+
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid registration",
+          errors: parsed.error.errors,
+        });
+      }
+
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+        role: isFirstUser ? "supervisor" : parsed.data.role,
+      });
+
+      // A supervisor creating an account for someone else stays logged in as themselves
+      if (req.isAuthenticated()) {
+        return res.status(201).json(toPublicUser(user));
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  app.get("/api/users", requireRole("supervisor"), async (_req, res) => {
+    const users = await storage.listUsers();
+    res.json(users.map(toPublicUser));
+  });
+
+  app.patch("/api/users/:id/role", requireRole("supervisor"), async (req, res) => {
+    const parsed = z.object({ role: z.enum(USER_ROLES) }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid role", errors: parsed.error.errors });
+    }
+
+    // Keeps at least one supervisor around to manage the team
+    if (req.params.id === req.user!.id && parsed.data.role !== "supervisor") {
+      return res.status(400).json({ message: "You cannot remove your own supervisor role" });
+    }
+
+    const user = await storage.updateUserRole(req.params.id, parsed.data.role);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    res.json(toPublicUser(user));
+  });
+}
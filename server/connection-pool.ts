@@ -0,0 +1,89 @@
+import http from "http";
+import https from "https";
+
+/**
+ * Keep-alive connection pools, one agent per upstream origin, so repeated
+ * calls to the same host (bulk runs in particular) reuse warm connections
+ * instead of paying a TCP and TLS handshake each time.
+ */
+
+const DEFAULT_POOL_SIZE = 10;
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+
+export interface ConnectionPool {
+  host: string;
+  agent: http.Agent;
+  /** Requests sent through the pool */
+  requests: number;
+  /** Requests that went out on an already open connection */
+  reusedRequests: number;
+}
+
+export interface PoolStats {
+  host: string;
+  /** Sockets serving a request */
+  active: number;
+  /** Open sockets waiting for the next request */
+  idle: number;
+  /** Requests waiting for a free socket */
+  queued: number;
+  requests: number;
+  reusedRequests: number;
+}
+
+// Kept per process, like the metrics
+const pools = new Map<string, ConnectionPool>();
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Pool settings from PROXY_POOL_SIZE (sockets per upstream host) and
+ * PROXY_POOL_IDLE_TIMEOUT_MS (how long an unused socket stays open)
+ */
+export function getPoolConfig() {
+  return {
+    size: readPositiveInt(process.env.PROXY_POOL_SIZE, DEFAULT_POOL_SIZE),
+    idleTimeoutMs: readPositiveInt(process.env.PROXY_POOL_IDLE_TIMEOUT_MS, DEFAULT_IDLE_TIMEOUT_MS),
+  };
+}
+
+export function getConnectionPool(target: URL): ConnectionPool {
+  let pool = pools.get(target.origin);
+  if (!pool) {
+    const { size, idleTimeoutMs } = getPoolConfig();
+    const options = {
+      keepAlive: true,
+      maxSockets: size,
+      maxFreeSockets: size,
+      // Node closes free sockets once they sit idle this long
+      timeout: idleTimeoutMs,
+    };
+    pool = {
+      host: target.host,
+      agent: target.protocol === "https:" ? new https.Agent(options) : new http.Agent(options),
+      requests: 0,
+      reusedRequests: 0,
+    };
+    pools.set(target.origin, pool);
+  }
+  return pool;
+}
+
+const countSockets = (sockets: NodeJS.ReadOnlyDict<unknown[]>) =>
+  Object.values(sockets).reduce((total, list) => total + (list?.length ?? 0), 0);
+
+export function getPoolStats(): PoolStats[] {
+  return Array.from(pools.values())
+    .map(({ host, agent, requests, reusedRequests }) => ({
+      host,
+      active: countSockets(agent.sockets),
+      idle: countSockets(agent.freeSockets),
+      queued: countSockets(agent.requests),
+      requests,
+      reusedRequests,
+    }))
+    .sort((a, b) => a.host.localeCompare(b.host));
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { cookieJarNameSchema } from "@shared/schema";
+import { listCookieJars, openCookieJar, type CookieJarStore } from "./cookie-jar";
+
+describe("cookie jar names", () => {
+  it("accepts letters, digits, dashes and underscores only", () => {
+    expect(cookieJarNameSchema.safeParse("support_session-2").success).toBe(true);
+    expect(cookieJarNameSchema.safeParse("my jar").success).toBe(false);
+    expect(cookieJarNameSchema.safeParse("a.b").success).toBe(false);
+    expect(cookieJarNameSchema.safeParse("__proto__").success).toBe(false);
+  });
+
+  it("opens names shared with Object.prototype as new, empty jars", () => {
+    const store: CookieJarStore = {};
+
+    openCookieJar(store, "constructor").store("https://api.test/login", ["sid=abc; Path=/"]);
+    openCookieJar(store, "toString");
+
+    expect(listCookieJars(store).map((jar) => [jar.name, jar.cookies.length])).toEqual([
+      ["constructor", 1],
+      ["toString", 0],
+    ]);
+    expect(Object.getPrototypeOf(store)).toBe(Object.prototype);
+  });
+});
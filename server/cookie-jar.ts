@@ -0,0 +1,171 @@
+import type { CookieJarSummary, StoredCookie } from "@shared/schema";
+
+/**
+ * Named cookie jars, kept in the caller's session so cookies an upstream
+ * sets on one proxied call are sent with the next call that names the jar
+ */
+export type CookieJarStore = Record<string, StoredCookie[]>;
+
+declare module "express-session" {
+  interface SessionData {
+    cookieJars?: CookieJarStore;
+  }
+}
+
+// Oldest cookies are dropped past this, to keep sessions small
+const MAX_COOKIES_PER_JAR = 200;
+
+const isExpired = (cookie: StoredCookie, now: number) => cookie.expires !== undefined && cookie.expires <= now;
+
+function domainMatches(host: string, cookie: StoredCookie): boolean {
+  return host === cookie.domain || (!cookie.hostOnly && host.endsWith(`.${cookie.domain}`));
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return (
+    requestPath === cookiePath ||
+    (requestPath.startsWith(cookiePath) && (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/"))
+  );
+}
+
+// The "directory" of the request path, used when Set-Cookie gives no Path
+function defaultPath(requestPath: string): string {
+  const lastSlash = requestPath.lastIndexOf("/");
+  return lastSlash > 0 ? requestPath.slice(0, lastSlash) : "/";
+}
+
+/**
+ * Parses one Set-Cookie header received from `url`. Returns null for
+ * malformed cookies and for cookies whose Domain does not cover the host.
+ */
+export function parseSetCookie(header: string, url: URL, now: number = Date.now()): StoredCookie | null {
+  const [pair, ...attributes] = header.split(";");
+  const separator = pair.indexOf("=");
+  if (separator < 1) return null;
+
+  const host = url.hostname.toLowerCase();
+  const cookie: StoredCookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    domain: host,
+    path: defaultPath(url.pathname),
+    secure: false,
+    httpOnly: false,
+    hostOnly: true,
+  };
+  let maxAge: number | undefined;
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split("=");
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join("=").trim();
+
+    if (key === "domain" && value) {
+      cookie.domain = value.replace(/^\./, "").toLowerCase();
+      cookie.hostOnly = false;
+    } else if (key === "path" && value.startsWith("/")) {
+      cookie.path = value;
+    } else if (key === "expires") {
+      const expires = Date.parse(value);
+      if (!isNaN(expires)) cookie.expires = expires;
+    } else if (key === "max-age" && /^-?\d+$/.test(value)) {
+      maxAge = parseInt(value, 10);
+    } else if (key === "secure") {
+      cookie.secure = true;
+    } else if (key === "httponly") {
+      cookie.httpOnly = true;
+    }
+  }
+
+  // Max-Age wins over Expires; zero or less deletes the cookie
+  if (maxAge !== undefined) {
+    cookie.expires = maxAge > 0 ? now + maxAge * 1000 : 0;
+  }
+
+  if (!cookie.name || !domainMatches(host, cookie)) return null;
+  return cookie;
+}
+
+/**
+ * One named jar. Changes are made to the session's cookie array in place,
+ * so express-session saves them with the session.
+ */
+export class CookieJar {
+  constructor(private readonly cookies: StoredCookie[]) {}
+
+  /** Stores the Set-Cookie headers of a response received from `url` */
+  store(url: string, setCookieHeaders: string[]) {
+    const now = Date.now();
+    const target = new URL(url);
+
+    for (const header of setCookieHeaders) {
+      const cookie = parseSetCookie(header, target, now);
+      if (!cookie) continue;
+
+      const existing = this.cookies.findIndex((entry) =>
+        entry.name === cookie.name && entry.domain === cookie.domain && entry.path === cookie.path);
+      if (existing !== -1) this.cookies.splice(existing, 1);
+      if (!isExpired(cookie, now)) this.cookies.push(cookie);
+    }
+
+    if (this.cookies.length > MAX_COOKIES_PER_JAR) {
+      this.cookies.splice(0, this.cookies.length - MAX_COOKIES_PER_JAR);
+    }
+  }
+
+  /** Cookie header value for a request to `url`, longest paths first */
+  getCookieHeader(url: string): string | undefined {
+    const now = Date.now();
+    const target = new URL(url);
+    const host = target.hostname.toLowerCase();
+
+    const matching = this.cookies
+      .filter((cookie) =>
+        !isExpired(cookie, now) &&
+        domainMatches(host, cookie) &&
+        pathMatches(target.pathname, cookie.path) &&
+        (!cookie.secure || target.protocol === "https:"))
+      .sort((a, b) => b.path.length - a.path.length);
+
+    return matching.length > 0
+      ? matching.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ")
+      : undefined;
+  }
+
+  /**
+   * Headers for a request to `url` with the jar's cookies added after any
+   * cookie header the caller set
+   */
+  applyTo(headers: Record<string, string>, url: string): Record<string, string> {
+    const jarCookies = this.getCookieHeader(url);
+    if (!jarCookies) return headers;
+
+    const result = { ...headers };
+    const existingName = Object.keys(result).find((name) => name.toLowerCase() === "cookie");
+    if (existingName) {
+      result[existingName] = `${result[existingName]}; ${jarCookies}`;
+    } else {
+      result["cookie"] = jarCookies;
+    }
+    return result;
+  }
+}
+
+export function openCookieJar(store: CookieJarStore, name: string): CookieJar {
+  // Only own keys count - names like "constructor" must not reach Object.prototype
+  if (!Object.hasOwn(store, name)) {
+    store[name] = [];
+  }
+  return new CookieJar(store[name]);
+}
+
+/**
+ * Lists the jars for the UI, leaving out cookies that have expired
+ */
+export function listCookieJars(store: CookieJarStore): CookieJarSummary[] {
+  const now = Date.now();
+  return Object.entries(store).map(([name, cookies]) => ({
+    name,
+    cookies: cookies.filter((cookie) => !isExpired(cookie, now)),
+  }));
+}
@@ -0,0 +1,41 @@
+import type { NextFunction, Request, Response } from "express";
+import { OVERRIDE_KEY_HEADER } from "./proxy-guard";
+
+const ALLOWED_METHODS = "GET,POST,PUT,PATCH,DELETE,OPTIONS";
+const ALLOWED_HEADERS = `Accept, Content-Type, X-Requested-With, ${OVERRIDE_KEY_HEADER}`;
+
+/**
+ * Origins allowed to call /api from another site, from PROXY_CORS_ORIGINS
+ * (comma separated). The panel itself is served from the same origin and
+ * needs none.
+ */
+export function getCorsOrigins(): string[] {
+  return (process.env.PROXY_CORS_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter((origin) => origin.length > 0);
+}
+
+/**
+ * Answers CORS for configured origins only. Requests carry the session
+ * cookie, so the origin is echoed back rather than using "*".
+ */
+export function cors(req: Request, res: Response, next: NextFunction) {
+  const origin = req.get("origin");
+  if (!origin || !getCorsOrigins().includes(origin)) {
+    return next();
+  }
+
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Credentials", "true");
+  res.setHeader("Vary", "Origin");
+
+  if (req.method === "OPTIONS") {
+    res.setHeader("Access-Control-Allow-Methods", ALLOWED_METHODS);
+    res.setHeader("Access-Control-Allow-Headers", ALLOWED_HEADERS);
+    res.setHeader("Access-Control-Max-Age", "600");
+    return res.status(204).end();
+  }
+
+  next();
+}
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ApiRequest } from "@shared/schema";
+import { ProxyError } from "./proxy-errors";
+
+/**
+ * Fixture mode, from PROXY_FIXTURE_MODE:
+ * - off: always call upstream (default)
+ * - record: call upstream and save each exchange as a fixture file
+ * - replay: answer from fixture files without calling upstream
+ */
+export type FixtureMode = "off" | "record" | "replay";
+
+/**
+ * What replay does with a request that has no fixture, from PROXY_FIXTURE_MISS
+ */
+export type FixtureMissPolicy = "fail" | "passthrough";
+
+/**
+ * Response header naming the fixture a replayed response came from
+ */
+export const FIXTURE_HEADER = "x-proxy-fixture";
+
+const DEFAULT_FIXTURE_DIR = "fixtures";
+
+// Describe the stored body rather than the original transfer
+const DROPPED_HEADERS = ["content-encoding", "content-length", "transfer-encoding", "connection", "keep-alive"];
+
+interface FixtureFile {
+  request: { method: string; url: string; bodyHash: string };
+  response: { status: number; statusText: string; headers: Record<string, string>; body: string };
+  recordedAt: string;
+}
+
+/**
+ * Raised in replay mode when a request has no fixture and misses fail
+ */
+export class FixtureNotFoundError extends ProxyError {
+  constructor(request: ApiRequest, fileName: string) {
+    super(
+      `No fixture recorded for ${request.method} ${request.url}`,
+      "fixture_not_found",
+      404,
+      { fixture: fileName },
+    );
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.PROXY_FIXTURE_MODE;
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+export function getFixtureMissPolicy(): FixtureMissPolicy {
+  return process.env.PROXY_FIXTURE_MISS === "passthrough" ? "passthrough" : "fail";
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.env.PROXY_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Hash of everything that makes up the request body. JSON bodies hash just
+ * the body text, as they always have, so older recordings keep matching.
+ */
+function getBodyHash(request: ApiRequest): string {
+  if (!request.bodyType || request.bodyType === "json") {
+    return sha256(request.body || "");
+  }
+  const { bodyType, contentType, body, fields } = request;
+  return sha256(JSON.stringify({ bodyType, contentType, body, fields }));
+}
+
+/**
+ * Fixture file name for a request, keyed by method, URL and a hash of the body
+ * (including its type and form fields).
+ * The identity is not part of the key, so every identity replays the same
+ * recording.
+ */
+export function getFixtureFileName(request: ApiRequest): string {
+  const bodyHash = getBodyHash(request);
+  const key = sha256(`${request.method} ${request.url} ${bodyHash}`);
+  const host = new URL(request.url).hostname.replace(/[^\w.-]/g, "_");
+  return `${request.method}_${host}_${key.slice(0, 24)}.json`;
+}
+
+/**
+ * In replay mode, returns the recorded response for a request. Returns null
+ * when fixtures are off, or when nothing matches and misses pass through.
+ */
+export async function findReplayFixture(request: ApiRequest): Promise<Response | null> {
+  if (getFixtureMode() !== "replay") return null;
+
+  const fileName = getFixtureFileName(request);
+  let fixture: FixtureFile;
+  try {
+    fixture = JSON.parse(await readFile(path.join(getFixtureDir(), fileName), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    if (getFixtureMissPolicy() === "passthrough") return null;
+    throw new FixtureNotFoundError(request, fileName);
+  }
+
+  const { status, statusText, headers, body } = fixture.response;
+  // Response refuses a body for null-body statuses like 204 and 304
+  const hasBody = ![101, 204, 205, 304].includes(status);
+  return new Response(hasBody ? Buffer.from(body, "base64") : null, {
+    status,
+    statusText,
+    headers: { ...headers, [FIXTURE_HEADER]: fileName },
+  });
+}
+
+/**
+ * Saves an upstream exchange as a fixture. Takes a clone of the response so
+ * the original can still be streamed to the client; failures are logged and
+ * never affect the proxied request.
+ */
+export async function recordFixture(request: ApiRequest, response: Response): Promise<void> {
+  try {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!DROPPED_HEADERS.includes(key)) headers[key] = value;
+    });
+
+    const fixture: FixtureFile = {
+      request: { method: request.method, url: request.url, bodyHash: getBodyHash(request) },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: Buffer.from(await response.arrayBuffer()).toString("base64"),
+      },
+      recordedAt: new Date().toISOString(),
+    };
+
+    const dir = getFixtureDir();
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, getFixtureFileName(request)), JSON.stringify(fixture, null, 2));
+  } catch (error) {
+    console.error("Failed to record fixture:", error);
+  }
+}
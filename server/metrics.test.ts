@@ -0,0 +1,72 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Server } from "http";
+import type { ApiRequest, PublicUser } from "@shared/schema";
+import { renderMetrics } from "./metrics";
+import { executeProxyRequest } from "./proxy";
+import { createApp } from "./app";
+
+const agent: PublicUser = { id: "user-1", username: "agent", role: "agent" };
+
+describe("proxy metrics", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("counts refused targets by error code without adding their host", async () => {
+    vi.stubEnv("PROXY_ALLOWED_HOSTS", "api.test");
+    const request: ApiRequest = { url: "https://attacker-chosen.example/path", method: "GET" };
+
+    await expect(executeProxyRequest(request, { trusted: false, user: agent }))
+      .rejects.toMatchObject({ code: "host_not_allowed" });
+
+    const metrics = renderMetrics();
+    expect(metrics).not.toContain("attacker-chosen.example");
+    expect(metrics).toContain('proxy_refused_requests_total{code="host_not_allowed"} 1');
+  });
+});
+
+describe("GET /api/metrics", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const getMetrics = (headers: Record<string, string> = {}) => fetch(`${baseUrl}/api/metrics`, { headers });
+
+  beforeAll(async () => {
+    vi.stubEnv("SESSION_SECRET", "test-secret");
+    ({ server } = await createApp());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const address = server.address();
+    if (!address || typeof address === "string") throw new Error("Test server is not listening on a port");
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("requires a session when no metrics token is configured", async () => {
+    vi.stubEnv("METRICS_TOKEN", "");
+    expect((await getMetrics()).status).toBe(401);
+
+    // The first account may register without logging in
+    const registered = await fetch(`${baseUrl}/api/register`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ username: "supervisor", password: "correct horse" }),
+    });
+    const cookie = registered.headers.get("set-cookie")?.split(";")[0] ?? "";
+
+    expect((await getMetrics({ cookie })).status).toBe(200);
+  });
+
+  it("lets scrapers in with the configured bearer token", async () => {
+    vi.stubEnv("METRICS_TOKEN", "scrape-secret");
+
+    expect((await getMetrics({ authorization: "Bearer scrape-secret" })).status).toBe(200);
+    expect((await getMetrics({ authorization: "Bearer wrong" })).status).toBe(401);
+  });
+});
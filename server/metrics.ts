@@ -0,0 +1,209 @@
+import type { NextFunction, Request, Response } from "express";
+import { timingSafeEqual } from "crypto";
+import { getPoolStats } from "./connection-pool";
+
+/**
+ * Upstream latency histogram buckets, in seconds
+ */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface UpstreamOutcome {
+  /** Upstream status, or null when no response came back */
+  upstreamStatus: number | null;
+  /** Proxy error code when the call failed */
+  errorCode: string | null;
+  /** Time until upstream answered with headers, or null without a response */
+  latencyMs: number | null;
+}
+
+interface HostMetrics {
+  inFlight: number;
+  /** Keyed by "method status", status being a class like 2xx or "error" */
+  requests: Map<string, number>;
+  errors: Map<string, number>;
+  latencyBuckets: number[];
+  latencySum: number;
+  latencyCount: number;
+}
+
+// Kept per process - a restart resets every counter, which Prometheus handles
+const hostMetrics = new Map<string, HostMetrics>();
+// Keyed by error code only: the refused host is caller-chosen
+const refusedRequests = new Map<string, number>();
+
+function getHostMetrics(host: string): HostMetrics {
+  let metrics = hostMetrics.get(host);
+  if (!metrics) {
+    metrics = {
+      inFlight: 0,
+      requests: new Map(),
+      errors: new Map(),
+      latencyBuckets: LATENCY_BUCKETS.map(() => 0),
+      latencySum: 0,
+      latencyCount: 0,
+    };
+    hostMetrics.set(host, metrics);
+  }
+  return metrics;
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * Counts an upstream call as in flight. Call the returned function once it
+ * settles to record its status, latency and error code.
+ */
+export function trackUpstreamRequest(url: string, method: string): (outcome: UpstreamOutcome) => void {
+  const metrics = getHostMetrics(new URL(url).host);
+  metrics.inFlight++;
+
+  return ({ upstreamStatus, errorCode, latencyMs }) => {
+    metrics.inFlight--;
+
+    const statusClass = upstreamStatus !== null ? `${Math.floor(upstreamStatus / 100)}xx` : "error";
+    increment(metrics.requests, `${method} ${statusClass}`);
+    if (errorCode) {
+      increment(metrics.errors, errorCode);
+    }
+
+    if (latencyMs !== null) {
+      const seconds = latencyMs / 1000;
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        if (seconds <= bound) metrics.latencyBuckets[index]++;
+      });
+      metrics.latencySum += seconds;
+      metrics.latencyCount++;
+    }
+  };
+}
+
+/**
+ * Counts a call refused before it reached upstream, e.g. by the role,
+ * allow-list or rate-limit checks
+ */
+export function recordRefusedRequest(errorCode: string) {
+  increment(refusedRequests, errorCode);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  const hosts = Array.from(hostMetrics.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  lines.push(
+    "# HELP proxy_upstream_requests_total Proxied requests by upstream host, method and status class",
+    "# TYPE proxy_upstream_requests_total counter",
+  );
+  hosts.forEach(([host, metrics]) => {
+    metrics.requests.forEach((count, key) => {
+      const [method, status] = key.split(" ");
+      lines.push(`proxy_upstream_requests_total${formatLabels({ host, method, status })} ${count}`);
+    });
+  });
+
+  lines.push(
+    "# HELP proxy_upstream_errors_total Proxied requests that failed, by upstream host and error code",
+    "# TYPE proxy_upstream_errors_total counter",
+  );
+  hosts.forEach(([host, metrics]) => {
+    metrics.errors.forEach((count, code) => {
+      lines.push(`proxy_upstream_errors_total${formatLabels({ host, code })} ${count}`);
+    });
+  });
+
+  lines.push(
+    "# HELP proxy_refused_requests_total Proxied requests refused before reaching upstream, by proxy error code",
+    "# TYPE proxy_refused_requests_total counter",
+  );
+  Array.from(refusedRequests.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([code, count]) => {
+      lines.push(`proxy_refused_requests_total${formatLabels({ code })} ${count}`);
+    });
+
+  lines.push(
+    "# HELP proxy_upstream_requests_in_flight Proxied requests waiting on upstream",
+    "# TYPE proxy_upstream_requests_in_flight gauge",
+  );
+  hosts.forEach(([host, metrics]) => {
+    lines.push(`proxy_upstream_requests_in_flight${formatLabels({ host })} ${metrics.inFlight}`);
+  });
+
+  lines.push(
+    "# HELP proxy_upstream_latency_seconds Time until upstream answered with headers",
+    "# TYPE proxy_upstream_latency_seconds histogram",
+  );
+  hosts.forEach(([host, metrics]) => {
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      lines.push(`proxy_upstream_latency_seconds_bucket${formatLabels({ host, le: String(bound) })} ${metrics.latencyBuckets[index]}`);
+    });
+    lines.push(`proxy_upstream_latency_seconds_bucket${formatLabels({ host, le: "+Inf" })} ${metrics.latencyCount}`);
+    lines.push(`proxy_upstream_latency_seconds_sum${formatLabels({ host })} ${metrics.latencySum}`);
+    lines.push(`proxy_upstream_latency_seconds_count${formatLabels({ host })} ${metrics.latencyCount}`);
+  });
+
+  // Pools are keyed by the host actually connected to, which differs from the hosts above when rebased
+  const pools = getPoolStats();
+  lines.push(
+    "# HELP proxy_upstream_pool_sockets Keep-alive sockets by upstream host and state",
+    "# TYPE proxy_upstream_pool_sockets gauge",
+  );
+  pools.forEach(({ host, active, idle }) => {
+    lines.push(`proxy_upstream_pool_sockets${formatLabels({ host, state: "active" })} ${active}`);
+    lines.push(`proxy_upstream_pool_sockets${formatLabels({ host, state: "idle" })} ${idle}`);
+  });
+
+  lines.push(
+    "# HELP proxy_upstream_pool_queued_requests Requests waiting for a free pooled socket",
+    "# TYPE proxy_upstream_pool_queued_requests gauge",
+  );
+  pools.forEach(({ host, queued }) => {
+    lines.push(`proxy_upstream_pool_queued_requests${formatLabels({ host })} ${queued}`);
+  });
+
+  lines.push(
+    "# HELP proxy_upstream_pool_requests_total Requests sent through the pool, by whether they reused a connection",
+    "# TYPE proxy_upstream_pool_requests_total counter",
+  );
+  pools.forEach(({ host, requests, reusedRequests }) => {
+    lines.push(`proxy_upstream_pool_requests_total${formatLabels({ host, connection: "new" })} ${requests - reusedRequests}`);
+    lines.push(`proxy_upstream_pool_requests_total${formatLabels({ host, connection: "reused" })} ${reusedRequests}`);
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Scrapers can't log in, so /api/metrics also accepts METRICS_TOKEN sent as a
+ * bearer token. Without a configured token only logged-in users get through.
+ */
+export function requireMetricsToken(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  const header = req.get("authorization") || "";
+  const a = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const b = Buffer.from(expected);
+  if (a.length === b.length && timingSafeEqual(a, b)) return next();
+
+  res.status(401).json({ message: "Invalid metrics token" });
+}
@@ -0,0 +1,446 @@
+import express, { type Express, type Request, type Response } from "express";
+import { pathToFileURL } from "url";
+
+/**
+ * Mock Brands for Less upstream for development and tests.
+ *
+ * Implements the customer, address, user, order, sales return, SMS, email
+ * and cancel endpoints the panel calls, with data generated from the
+ * customer ID so every lookup is repeatable. Point the proxy at it with
+ * BFL_API_BASE_URL (see getRebasedUrl in proxy.ts).
+ *
+ * Any customer ID from 1 to 99999999 exists, except:
+ * - IDs ending in 13 are unknown (empty results, 404 for order lookups)
+ * - IDs ending in 7 are guests: an address record with guest = 1 and no user account
+ * - IDs ending in 0 have no orders
+ * - 429, 500 and 503 answer with that status
+ *
+ * Order IDs are A + the 8-digit customer ID + a 5-digit sequence, with an
+ * optional "-n" split suffix (A0193217900001-1). Mobiles are 9715 + the
+ * 8-digit customer ID and emails end in the customer ID, so searches by
+ * mobile or email find the same customer.
+ */
+
+export const DEFAULT_MOCK_UPSTREAM_PORT = 5100;
+
+const MAX_CUSTOMER_ID = 99999999;
+const ERROR_CUSTOMER_IDS: Record<number, string> = {
+  429: "Too many requests",
+  500: "Internal server error",
+  503: "Service temporarily unavailable",
+};
+
+const FIRST_NAMES = ["Ahmed", "Fatima", "Mohammed", "Aisha", "Omar", "Mariam", "Rahul", "Priya", "John", "Sara", "Khalid", "Noura", "Arjun", "Layla", "Hassan", "Maria"];
+const LAST_NAMES = ["Al Mansoori", "Khan", "Hussain", "Sharma", "Fernandes", "Al Hashimi", "Patel", "Smith", "Haddad", "Nair", "Ali", "Rahman"];
+const AREAS: Record<string, string[]> = {
+  "Dubai": ["Dubai Marina", "Al Barsha", "Jumeirah Lake Towers", "Deira", "Al Nahda"],
+  "Sharjah": ["Al Majaz", "Al Taawun", "Muwaileh"],
+  "Abu Dhabi": ["Khalifa City", "Al Reem Island", "Mussafah"],
+  "Ajman": ["Al Nuaimiya", "Al Rashidiya"],
+};
+const PRODUCTS = ["Cotton T-Shirt", "Slim Fit Jeans", "Summer Dress", "Running Shoes", "Leather Handbag", "Kids Hoodie", "Linen Shirt", "Sports Socks (3 pack)", "Abaya", "Sunglasses"];
+const SHIP_STATUSES = ["Pending", "Processing", "Shipped", "Delivered", "Delivered", "Delivered", "Cancelled", "Returned"];
+const CANCELLABLE_STATUSES = ["Pending", "Processing"];
+
+interface MockCustomer {
+  customerId: number;
+  guest: boolean;
+  firstname: string;
+  lastname: string;
+  email: string;
+  mobile: string;
+  gender: string;
+  birthDate: string;
+  registerDate: string;
+  city: string;
+  area: string;
+  address: string;
+  orderCount: number;
+}
+
+interface MockOrder {
+  orderId: string;
+  customerId: number;
+  createDate: string;
+  shipStatus: string;
+  subtotal: number;
+  shipping: number;
+  items: Array<{ sku: string; name: string; qty: number; price: number }>;
+  paymentType: string;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so generated data only depends on the seed
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(values: T[]): T => values[Math.floor(next() * values.length)],
+  };
+}
+
+const pad = (value: number, length: number) => String(value).padStart(length, "0");
+
+/**
+ * Formats a date the way upstream does: "YYYY-MM-DD HH:mm:ss"
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+const formatAmount = (amount: number) => `AED ${amount.toFixed(2)}`;
+
+function parseCustomerId(value: unknown): number | null {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+  const id = parseInt(value, 10);
+  return id >= 1 && id <= MAX_CUSTOMER_ID ? id : null;
+}
+
+function getCustomer(customerId: number): MockCustomer | null {
+  if (customerId % 100 === 13) return null;
+
+  const random = createRandom(customerId);
+  const guest = customerId % 10 === 7;
+  const firstname = random.pick(FIRST_NAMES);
+  const lastname = random.pick(LAST_NAMES);
+  const city = random.pick(Object.keys(AREAS));
+  const registered = new Date(Date.UTC(random.int(2019, 2024), random.int(0, 11), random.int(1, 28), random.int(8, 22), random.int(0, 59)));
+
+  return {
+    customerId,
+    guest,
+    firstname,
+    lastname,
+    email: `${firstname}.${lastname}.${customerId}@example.com`.toLowerCase().replace(/\s+/g, ""),
+    mobile: `9715${pad(customerId, 8)}`,
+    gender: random.pick(["M", "F"]),
+    birthDate: `${random.int(1960, 2004)}-${pad(random.int(1, 12), 2)}-${pad(random.int(1, 28), 2)}`,
+    registerDate: formatDate(registered),
+    city,
+    area: random.pick(AREAS[city]),
+    address: `Building ${random.int(1, 120)}, Street ${random.int(1, 40)}, Flat ${random.int(101, 2405)}`,
+    orderCount: customerId % 10 === 0 ? 0 : guest ? random.int(1, 2) : random.int(1, 8),
+  };
+}
+
+function getOrder(customer: MockCustomer, sequence: number, cancelled: Set<string>): MockOrder {
+  const random = createRandom(customer.customerId * 100 + sequence);
+  const orderId = `A${pad(customer.customerId, 8)}${pad(sequence, 5)}`;
+  const items = Array.from({ length: random.int(1, 4) }, () => ({
+    sku: `BFL${random.int(100000, 999999)}`,
+    name: random.pick(PRODUCTS),
+    qty: random.int(1, 3),
+    price: random.int(19, 249),
+  }));
+  const subtotal = items.reduce((sum, item) => sum + item.qty * item.price, 0);
+  const created = new Date(Date.parse(customer.registerDate + "Z") + sequence * random.int(5, 40) * 86400000);
+
+  return {
+    orderId,
+    customerId: customer.customerId,
+    createDate: formatDate(created),
+    shipStatus: cancelled.has(orderId) ? "Cancelled" : random.pick(SHIP_STATUSES),
+    subtotal,
+    shipping: subtotal >= 100 ? 0 : 10,
+    items,
+    paymentType: random.pick(["COD", "Card", "Card", "Tabby"]),
+  };
+}
+
+function listOrders(customer: MockCustomer, cancelled: Set<string>): MockOrder[] {
+  return Array.from({ length: customer.orderCount }, (_, index) => getOrder(customer, index + 1, cancelled));
+}
+
+/**
+ * Finds an order by ID, ignoring any split suffix
+ */
+function findOrder(orderId: string, cancelled: Set<string>): MockOrder | null {
+  const match = /^A(\d{8})(\d{5})(?:-\d+)?$/.exec(orderId);
+  if (!match) return null;
+
+  const customer = getCustomer(parseInt(match[1], 10));
+  const sequence = parseInt(match[2], 10);
+  if (!customer || sequence < 1 || sequence > customer.orderCount) return null;
+  return getOrder(customer, sequence, cancelled);
+}
+
+function toOrderSummary(order: MockOrder) {
+  return {
+    orderId: order.orderId,
+    customerId: order.customerId,
+    createDate: order.createDate,
+    shipStatus: order.shipStatus,
+    subtotal: order.subtotal,
+    transactionAmount: formatAmount(order.subtotal + order.shipping),
+  };
+}
+
+function toOrderDetail(order: MockOrder) {
+  const customer = getCustomer(order.customerId)!;
+  return {
+    ...toOrderSummary(order),
+    createdTime: order.createDate,
+    shippingFee: order.shipping,
+    items: order.items,
+    invoiceNo: order.shipStatus === "Delivered" || order.shipStatus === "Returned" ? `INV${order.orderId.slice(1)}` : null,
+    paymentType: order.paymentType,
+    paymentGateWay: order.paymentType === "COD" ? "Cash on Delivery" : order.paymentType === "Tabby" ? "Tabby" : "Checkout.com",
+    shippingAddress: customer.address,
+    shippingArea: customer.area,
+    shippingState: customer.city,
+    shippingCountry: "United Arab Emirates",
+    shippingZip: "00000",
+  };
+}
+
+function toAddress(customer: MockCustomer) {
+  return {
+    id: customer.customerId * 10 + 1,
+    customerId: customer.customerId,
+    guest: customer.guest ? 1 : 0,
+    firstname: customer.firstname,
+    lastname: customer.lastname,
+    address: customer.address,
+    area: customer.area,
+    city: customer.city,
+    country: "United Arab Emirates",
+    zipcode: "00000",
+    phone: customer.mobile,
+    mobile: customer.mobile,
+    email: customer.email,
+    birthDate: customer.birthDate,
+    gender: customer.gender,
+    registerDate: customer.registerDate,
+    isDefault: 1,
+  };
+}
+
+function toUser(customer: MockCustomer) {
+  return {
+    customerId: customer.customerId,
+    fname: customer.firstname,
+    lname: customer.lastname,
+    mobile: customer.mobile,
+    email: customer.email,
+    birthday: customer.birthDate,
+    gender: customer.gender,
+    regDate: customer.registerDate,
+  };
+}
+
+function sendData(res: Response, data: unknown, extra: Record<string, unknown> = {}) {
+  res.json({ code: 200, message: "success", data, ...extra });
+}
+
+function sendError(res: Response, status: number, message: string) {
+  res.status(status).json({ code: status, message, data: null });
+}
+
+/**
+ * Answers for the customer IDs that simulate upstream failures.
+ * Returns true when a response was sent.
+ */
+function sendSimulatedError(res: Response, customerId: number | null): boolean {
+  const message = customerId !== null ? ERROR_CUSTOMER_IDS[customerId] : undefined;
+  if (!message) return false;
+  if (customerId === 429) res.setHeader("retry-after", "1");
+  sendError(res, customerId!, message);
+  return true;
+}
+
+/**
+ * Pages a list the way the SMS and email logs do: 1-based index and pageSize
+ */
+function paginate<T>(items: T[], req: Request) {
+  const index = Math.max(parseInt(String(req.query.index), 10) || 1, 1);
+  const pageSize = Math.max(parseInt(String(req.query.pageSize), 10) || 10, 1);
+  return { data: items.slice((index - 1) * pageSize, index * pageSize), total: items.length };
+}
+
+/**
+ * Resolves the customer a mobile or email was generated for
+ */
+function findCustomerByContact(mobile: string, email: string): MockCustomer | null {
+  if (mobile) {
+    const match = /^9715(\d{8})$/.exec(mobile.replace(/[\s+-]/g, "").replace(/^00/, ""));
+    return match ? getCustomer(parseInt(match[1], 10)) : null;
+  }
+  const match = /\.(\d+)@example\.com$/i.exec(email);
+  const customer = match ? getCustomer(parseInt(match[1], 10)) : null;
+  return customer?.email === email.toLowerCase() ? customer : null;
+}
+
+/**
+ * Creates the mock upstream app. Cancellations are kept per app, so each
+ * instance starts from the generated state.
+ */
+export function createMockUpstreamApp(): Express {
+  const app = express();
+  const cancelled = new Set<string>();
+  app.use(express.json());
+
+  // Every upstream endpoint needs a token, any non-empty one will do here
+  app.use((req, res, next) => {
+    if (!req.get("x-access-token")) {
+      return sendError(res, 401, "Missing access token");
+    }
+    next();
+  });
+
+  app.get("/customer/api/v1/address", (req, res) => {
+    const customerId = parseCustomerId(req.query.customerId);
+    if (customerId === null) return sendError(res, 400, "Invalid customerId");
+    if (sendSimulatedError(res, customerId)) return;
+
+    const customer = getCustomer(customerId);
+    sendData(res, customer ? [toAddress(customer)] : []);
+  });
+
+  app.get("/customer/api/v1/user", (req, res) => {
+    const mobile = String(req.query.mobile || "");
+    const email = String(req.query.email || "");
+    const rawCustomerId = String(req.query.customerId || "");
+
+    let customer: MockCustomer | null;
+    if (rawCustomerId && rawCustomerId !== "-1") {
+      const customerId = parseCustomerId(rawCustomerId);
+      if (customerId === null) return sendError(res, 400, "Invalid customerId");
+      if (sendSimulatedError(res, customerId)) return;
+      customer = getCustomer(customerId);
+    } else if (mobile || email) {
+      customer = findCustomerByContact(mobile, email);
+    } else {
+      return sendError(res, 400, "One of customerId, mobile or email is required");
+    }
+
+    // Guests check out without an account
+    sendData(res, customer && !customer.guest ? [toUser(customer)] : []);
+  });
+
+  app.get("/customer/api/v1/sms", (req, res) => {
+    const mobile = String(req.query.mobile || "");
+    if (!mobile) return sendError(res, 400, "mobile is required");
+
+    const customer = findCustomerByContact(mobile, "");
+    const messages = customer
+      ? listOrders(customer, cancelled).flatMap((order) => [
+          {
+            id: `${order.orderId}-1`,
+            mobile: customer.mobile,
+            content: `Thank you for shopping at Brands for Less! Your order ${order.orderId} has been received.`,
+            sendTime: order.createDate,
+            status: "DELIVERED",
+          },
+          ...(order.shipStatus === "Shipped" || order.shipStatus === "Delivered" ? [{
+            id: `${order.orderId}-2`,
+            mobile: customer.mobile,
+            content: `Your order ${order.orderId} is on its way.`,
+            sendTime: order.createDate,
+            status: "DELIVERED",
+          }] : []),
+        ]).reverse()
+      : [];
+    const page = paginate(messages, req);
+    sendData(res, page.data, { total: page.total });
+  });
+
+  app.get("/customer/api/v1/email", (req, res) => {
+    const email = String(req.query.email || "");
+    if (!email) return sendError(res, 400, "email is required");
+
+    const customer = findCustomerByContact("", email);
+    const emails = customer
+      ? listOrders(customer, cancelled).map((order) => ({
+          id: order.orderId,
+          email: customer.email,
+          subject: order.shipStatus === "Cancelled"
+            ? `Your order ${order.orderId} has been cancelled`
+            : `Order confirmation ${order.orderId}`,
+          sendTime: order.createDate,
+          status: "SENT",
+        })).reverse()
+      : [];
+    const page = paginate(emails, req);
+    sendData(res, page.data, { total: page.total });
+  });
+
+  app.get("/shipment/api/v1/shipment/order", (req, res) => {
+    const customerId = parseCustomerId(req.query.customerId);
+    if (customerId === null) return sendError(res, 400, "Invalid customerId");
+    if (sendSimulatedError(res, customerId)) return;
+
+    const customer = getCustomer(customerId);
+    const orders = customer ? listOrders(customer, cancelled).map(toOrderSummary).reverse() : [];
+    const pageNum = Math.max(parseInt(String(req.query.pageNum), 10) || 1, 1);
+    const pageSize = Math.max(parseInt(String(req.query.pageSize), 10) || 20, 1);
+    sendData(res, orders.slice((pageNum - 1) * pageSize, pageNum * pageSize), { total: orders.length });
+  });
+
+  app.get("/shipment/api/v1/shipment/order/:orderId", (req, res) => {
+    const order = findOrder(req.params.orderId, cancelled);
+    if (!order) return sendError(res, 404, `Order ${req.params.orderId} not found`);
+    if (sendSimulatedError(res, order.customerId)) return;
+    sendData(res, toOrderDetail(order));
+  });
+
+  app.get("/shipment/api/v1/shipment/salesReturn/customer/:customerId", (req, res) => {
+    const customerId = parseCustomerId(req.params.customerId);
+    if (customerId === null) return sendError(res, 400, "Invalid customerId");
+    if (sendSimulatedError(res, customerId)) return;
+
+    const customer = getCustomer(customerId);
+    const returns = customer
+      ? listOrders(customer, cancelled)
+          .filter((order) => order.shipStatus === "Returned")
+          .map((order) => ({
+            returnId: `R${order.orderId.slice(1)}`,
+            orderId: order.orderId,
+            customerId,
+            createDate: order.createDate,
+            status: "Refunded",
+            reason: "Size does not fit",
+            refundAmount: formatAmount(order.subtotal),
+            items: order.items,
+          }))
+      : [];
+    sendData(res, returns);
+  });
+
+  app.post("/shipment/api/v1/cancel/order/:orderId", (req, res) => {
+    const order = findOrder(req.params.orderId, cancelled);
+    if (!order) return sendError(res, 404, `Order ${req.params.orderId} not found`);
+    if (sendSimulatedError(res, order.customerId)) return;
+    if (!req.body?.reason) return sendError(res, 400, "reason is required");
+    if (!CANCELLABLE_STATUSES.includes(order.shipStatus)) {
+      return sendError(res, 400, `Order ${order.orderId} cannot be cancelled in status ${order.shipStatus}`);
+    }
+
+    cancelled.add(order.orderId);
+    sendData(res, { orderId: order.orderId, shipStatus: "Cancelled", cancelledBy: req.body.createdBy ?? null });
+  });
+
+  app.use((_req, res) => sendError(res, 404, "Not found"));
+
+  return app;
+}
+
+/**
+ * Starts the mock upstream on MOCK_UPSTREAM_PORT (5100)
+ */
+export function startMockUpstream(port = parseInt(process.env.MOCK_UPSTREAM_PORT || "", 10) || DEFAULT_MOCK_UPSTREAM_PORT) {
+  return createMockUpstreamApp().listen(port, () => {
+    console.log(`Mock Brands for Less upstream listening on http://localhost:${port}`);
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startMockUpstream();
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { ApiRequest } from "@shared/schema";
+import { assertRoleAllowed, getRequiredRole, InsufficientRoleError, InvalidPathError } from "./permissions";
+
+const CANCEL_ORDER_URL = "https://api.brandsforlessuae.com/shipment/api/v1/cancel/order";
+
+describe("getRequiredRole", () => {
+  it("requires a supervisor to cancel orders, with or without the ID in the path", () => {
+    expect(getRequiredRole("POST", CANCEL_ORDER_URL)).toBe("supervisor");
+    expect(getRequiredRole("POST", `${CANCEL_ORDER_URL}/A235841600001-1`)).toBe("supervisor");
+  });
+
+  it("matches the normalized path so extra slashes cannot dodge a rule", () => {
+    expect(getRequiredRole("POST", `${CANCEL_ORDER_URL}/`)).toBe("supervisor");
+    expect(getRequiredRole("POST", "https://api.brandsforlessuae.com//shipment/api/v1//cancel/order")).toBe("supervisor");
+    expect(getRequiredRole("POST", `${CANCEL_ORDER_URL}?orderId=1`)).toBe("supervisor");
+  });
+
+  it("decodes the path and resolves dot segments before matching", () => {
+    const base = "https://api.brandsforlessuae.com";
+    expect(getRequiredRole("POST", `${base}/shipment/api/v1/%63ancel/order`)).toBe("supervisor");
+    expect(getRequiredRole("POST", `${base}/shipment/api/v1/%2563ancel/order`)).toBe("supervisor");
+    expect(getRequiredRole("POST", `${base}/shipment/api/v1/cancel%2Forder`)).toBe("supervisor");
+    expect(getRequiredRole("POST", `${base}/shipment/api/v1/sms/%2e%2e/cancel/./order`)).toBe("supervisor");
+    expect(getRequiredRole("POST", `${base}/shipment/api/v1/sms%2F..%2Fcancel/order`)).toBe("supervisor");
+  });
+
+  it("refuses malformed percent-encoding with 400", () => {
+    expect(() => getRequiredRole("POST", "https://api.brandsforlessuae.com/shipment/api/v1/%E0%A4%A/order"))
+      .toThrow(InvalidPathError);
+    expect(() => getRequiredRole("POST", "https://api.brandsforlessuae.com/shipment/api/v1/%2525252563ancel/order"))
+      .toThrow(expect.objectContaining({ status: 400, code: "invalid_request" }));
+  });
+
+  it("falls back to the method default for other calls", () => {
+    expect(getRequiredRole("GET", "https://api.brandsforlessuae.com/shipment/api/v1/shipment/order/A1")).toBe("viewer");
+    expect(getRequiredRole("POST", "https://api.brandsforlessuae.com/customer/api/v1/sms")).toBe("agent");
+    expect(getRequiredRole("POST", `${CANCEL_ORDER_URL}/A1/items`)).toBe("agent");
+  });
+});
+
+describe("assertRoleAllowed", () => {
+  // The request handleCancelOrder sends: the order ID goes in the body
+  const cancelRequest: ApiRequest = {
+    url: CANCEL_ORDER_URL,
+    method: "POST",
+    token: "token",
+    body: JSON.stringify({ orderId: "A235841600001-1" }),
+  };
+
+  it("refuses an agent with 403", () => {
+    let error: unknown;
+    try {
+      assertRoleAllowed(cancelRequest, "agent");
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(InsufficientRoleError);
+    expect(error).toMatchObject({ status: 403, code: "insufficient_role" });
+  });
+
+  it("lets a supervisor through", () => {
+    expect(() => assertRoleAllowed(cancelRequest, "supervisor")).not.toThrow();
+  });
+});
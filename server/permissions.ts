@@ -0,0 +1,112 @@
+import { API_ENDPOINTS, getDefaultRequiredRole } from "@shared/api-endpoints";
+import { hasRole, type ApiRequest, type UserRole } from "@shared/schema";
+import { ProxyError } from "./proxy-errors";
+
+interface PermissionRule {
+  endpointId: string;
+  method: string;
+  pattern: RegExp;
+  requiredRole: UserRole;
+}
+
+/**
+ * Raised when a path's percent-encoding is malformed, so there is no telling
+ * which endpoint upstream would read it as
+ */
+export class InvalidPathError extends ProxyError {
+  constructor(pathname: string) {
+    super(`Malformed percent-encoding in path ${pathname}`, "invalid_request", 400, { pathname });
+    this.name = "InvalidPathError";
+  }
+}
+
+// Enough to see through double or triple encoding; anything deeper is refused
+const MAX_DECODE_PASSES = 3;
+
+/**
+ * Reduces a path to what upstream will act on: percent-encoding is decoded
+ * (until nothing is left to decode), `.` and `..` segments are resolved and
+ * empty segments dropped, so `//shipment/./api/v1/%63ancel/order/` is checked
+ * as `/shipment/api/v1/cancel/order`
+ */
+function normalizePath(pathname: string): string {
+  let decoded = pathname;
+  for (let pass = 0; /%[0-9a-f]{2}/i.test(decoded); pass++) {
+    if (pass === MAX_DECODE_PASSES) throw new InvalidPathError(pathname);
+    try {
+      decoded = decodeURIComponent(decoded);
+    } catch {
+      throw new InvalidPathError(pathname);
+    }
+  }
+
+  const segments: string[] = [];
+  decoded.split(/[\\/]/).forEach((segment) => {
+    if (segment === "" || segment === ".") return;
+    if (segment === "..") segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * Turns an endpoint URL template into a regex over origin + path.
+ * `{param}` placeholders match one path segment, and a trailing one may be
+ * left out: callers such as the cancel order flow send the ID in the body
+ * to the bare path. The query string is ignored so reordered or extra query
+ * parameters cannot dodge a rule.
+ */
+function templateToPattern(template: string): RegExp {
+  const url = new URL(template.split("?")[0].replace(/\{(\w+)\}/g, "__$1__"));
+  const source = `${url.origin}${normalizePath(url.pathname)}`
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\/__\w+__$/, "(?:/[^/]+)?")
+    .replace(/__\w+__/g, "[^/]+");
+  return new RegExp(`^${source}$`, "i");
+}
+
+const PERMISSION_RULES: PermissionRule[] = API_ENDPOINTS
+  .filter((endpoint) => endpoint.requiredRole && /^https?:\/\//.test(endpoint.url))
+  .map((endpoint) => ({
+    endpointId: endpoint.id,
+    method: endpoint.method,
+    pattern: templateToPattern(endpoint.url),
+    requiredRole: endpoint.requiredRole!,
+  }));
+
+/**
+ * Lowest role allowed to send `method` to `url`: the matching endpoint
+ * definition's requiredRole, otherwise the default for the method
+ */
+export function getRequiredRole(method: string, url: string): UserRole {
+  const { origin, pathname } = new URL(url);
+  const target = `${origin}${normalizePath(pathname)}`;
+  const rule = PERMISSION_RULES.find(
+    (candidate) => candidate.method === method && candidate.pattern.test(target),
+  );
+  if (rule) return rule.requiredRole;
+
+  return getDefaultRequiredRole(method);
+}
+
+/**
+ * Raised when the caller's role is below what the target requires
+ */
+export class InsufficientRoleError extends ProxyError {
+  constructor(method: string, url: string, role: UserRole, requiredRole: UserRole) {
+    super(
+      `${method} ${url} requires the ${requiredRole} role`,
+      "insufficient_role",
+      403,
+      { role, requiredRole },
+    );
+    this.name = "InsufficientRoleError";
+  }
+}
+
+export function assertRoleAllowed(request: ApiRequest, role: UserRole): void {
+  const requiredRole = getRequiredRole(request.method, request.url);
+  if (!hasRole(role, requiredRole)) {
+    throw new InsufficientRoleError(request.method, request.url, role, requiredRole);
+  }
+}
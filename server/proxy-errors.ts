@@ -0,0 +1,88 @@
+import type { ProxyErrorCode, ProxyErrorResponse } from "@shared/schema";
+
+/**
+ * Error the proxy reports to the client with a specific status and code
+ */
+export class ProxyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ProxyErrorCode,
+    public readonly status: number = 500,
+    public readonly details?: Record<string, unknown>,
+    public readonly retryable: boolean = false,
+  ) {
+    super(message);
+    this.name = "ProxyError";
+  }
+
+  toResponse(): ProxyErrorResponse {
+    return {
+      message: this.message,
+      code: this.code,
+      details: this.details,
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * Raised when the upstream did not answer within the request's timeout
+ */
+export class UpstreamTimeoutError extends ProxyError {
+  constructor(url: string, timeoutMs: number) {
+    super(
+      `Upstream did not respond within ${timeoutMs}ms`,
+      "upstream_timeout",
+      504,
+      { url, timeoutMs },
+      true,
+    );
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * Raised when upstream redirects a request whose redirect mode is "error"
+ */
+export class RedirectNotAllowedError extends ProxyError {
+  constructor(url: string, status: number, location: string) {
+    super(
+      `Upstream redirected with ${status} to ${location}`,
+      "redirect_not_allowed",
+      502,
+      { url, status, location },
+    );
+    this.name = "RedirectNotAllowedError";
+  }
+}
+
+/**
+ * Raised when following redirects goes past the hop limit
+ */
+export class TooManyRedirectsError extends ProxyError {
+  constructor(url: string, limit: number) {
+    super(
+      `Upstream redirected more than ${limit} times`,
+      "too_many_redirects",
+      502,
+      { url, limit },
+    );
+    this.name = "TooManyRedirectsError";
+  }
+}
+
+/**
+ * Converts any error raised while proxying into the payload sent to clients
+ */
+export function toErrorResponse(error: unknown): ProxyErrorResponse {
+  if (error instanceof ProxyError) {
+    return error.toResponse();
+  }
+
+  return {
+    message: "Request failed",
+    code: "upstream_error",
+    error: error instanceof Error ? error.message : "Unknown error occurred",
+    retryable: true,
+  };
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { lookup as dnsLookup } from "dns/promises";
+import type { LookupFunction } from "net";
+import { assertTargetAllowed, createPinnedLookup } from "./proxy-guard";
+
+vi.mock("dns/promises", () => ({ lookup: vi.fn() }));
+
+const resolveWith = (...addresses: string[]) =>
+  vi.mocked(dnsLookup).mockResolvedValueOnce(
+    addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })) as any,
+  );
+
+/** What a connection opened with this lookup would be told */
+const connectLookup = (lookup: LookupFunction, options: Parameters<LookupFunction>[1]) =>
+  new Promise<{ error: NodeJS.ErrnoException | null; address: unknown; family?: number }>((resolve) =>
+    lookup("api.test", options, (error, address, family) => resolve({ error, address, family })),
+  );
+
+describe("assertTargetAllowed", () => {
+  beforeEach(() => {
+    vi.stubEnv("PROXY_ALLOWED_HOSTS", "api.test");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.mocked(dnsLookup).mockReset();
+  });
+
+  it("refuses a host that resolves to a private address", async () => {
+    resolveWith("93.184.216.34", "127.0.0.1");
+    await expect(assertTargetAllowed("https://api.test/a")).rejects.toMatchObject({ code: "private_address" });
+  });
+
+  it("pins the connection to the checked addresses when DNS changes afterwards", async () => {
+    resolveWith("93.184.216.34");
+    const lookup = await assertTargetAllowed("https://api.test/a");
+
+    // A rebinding answer for the connection's own lookup is never consulted
+    resolveWith("169.254.169.254");
+    expect(await connectLookup(lookup!, {})).toMatchObject({ error: null, address: "93.184.216.34", family: 4 });
+    expect(await connectLookup(lookup!, { all: true })).toMatchObject({
+      address: [{ address: "93.184.216.34", family: 4 }],
+    });
+    expect(dnsLookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("has nothing to pin for IP literals and trusted callers", async () => {
+    vi.stubEnv("PROXY_ALLOWED_HOSTS", "93.184.216.34");
+    expect(await assertTargetAllowed("https://93.184.216.34/a")).toBeUndefined();
+    expect(await assertTargetAllowed("http://localhost/a", true)).toBeUndefined();
+    expect(dnsLookup).not.toHaveBeenCalled();
+  });
+});
+
+describe("createPinnedLookup", () => {
+  const lookup = createPinnedLookup("api.test", ["93.184.216.34", "2606:2800:220:1::1"]);
+
+  it("answers only with checked addresses of the requested family", async () => {
+    expect(await connectLookup(lookup, { family: 6 })).toMatchObject({ address: "2606:2800:220:1::1", family: 6 });
+    expect(await connectLookup(lookup, { family: "IPv4", all: true })).toMatchObject({
+      address: [{ address: "93.184.216.34", family: 4 }],
+    });
+  });
+
+  it("fails instead of resolving again when no checked address fits", async () => {
+    const ipv4Only = createPinnedLookup("api.test", ["93.184.216.34"]);
+    expect(await connectLookup(ipv4Only, { family: 6 })).toMatchObject({ error: { code: "ENOTFOUND" } });
+  });
+});
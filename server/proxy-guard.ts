@@ -0,0 +1,203 @@
+import { lookup } from "dns/promises";
+import { isIP, type LookupFunction } from "net";
+import { timingSafeEqual } from "crypto";
+import type { ProxyErrorCode } from "@shared/schema";
+import { ProxyError } from "./proxy-errors";
+
+/**
+ * Header a trusted caller sends to bypass the allow-list and the private
+ * address check for a single request. It must match PROXY_OVERRIDE_KEY.
+ */
+export const OVERRIDE_KEY_HEADER = "x-proxy-override-key";
+
+const DEFAULT_ALLOWED_HOSTS = ["api.brandsforlessuae.com"];
+
+/**
+ * Raised when a proxy target is rejected before any upstream call is made
+ */
+export class ProxyGuardError extends ProxyError {
+  constructor(
+    message: string,
+    code: ProxyErrorCode,
+    status: number = 403,
+    details?: Record<string, unknown>,
+  ) {
+    super(message, code, status, details);
+    this.name = "ProxyGuardError";
+  }
+}
+
+/**
+ * Hosts the proxy may call, from PROXY_ALLOWED_HOSTS (comma separated).
+ * Entries are hostnames; a leading "*." also matches any subdomain.
+ */
+export function getAllowedHosts(): string[] {
+  const configured = process.env.PROXY_ALLOWED_HOSTS;
+  if (!configured) return DEFAULT_ALLOWED_HOSTS;
+
+  return configured
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host.length > 0);
+}
+
+export function isHostAllowed(hostname: string, allowedHosts: string[] = getAllowedHosts()): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some((entry) => {
+    if (entry.startsWith("*.")) {
+      const suffix = entry.slice(1);
+      return host.endsWith(suffix) && host.length > suffix.length;
+    }
+    return host === entry;
+  });
+}
+
+/**
+ * Whether an address is loopback, private, link-local (cloud metadata lives
+ * at 169.254.169.254) or otherwise not routable on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  let ip = address.toLowerCase();
+
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) ip = mapped[1];
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  if (isIP(ip) === 6) {
+    return (
+      ip === "::" ||
+      ip === "::1" ||
+      ip.startsWith("fc") ||
+      ip.startsWith("fd") ||
+      ip.startsWith("fe8") ||
+      ip.startsWith("fe9") ||
+      ip.startsWith("fea") ||
+      ip.startsWith("feb") ||
+      ip.startsWith("ff")
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Checks the override header against PROXY_OVERRIDE_KEY.
+ * Without a configured key nobody is trusted.
+ */
+export function isTrustedCaller(overrideKey: string | undefined): boolean {
+  const expected = process.env.PROXY_OVERRIDE_KEY;
+  if (!expected || !overrideKey) return false;
+
+  const a = Buffer.from(overrideKey);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * DNS lookup for the upstream connection that answers only with addresses
+ * the guard already checked, so a second resolution cannot hand the
+ * connection a different (private) address
+ */
+export function createPinnedLookup(hostname: string, addresses: string[]): LookupFunction {
+  const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+
+  return (_hostname, options, callback) => {
+    const family = options.family === "IPv4" ? 4 : options.family === "IPv6" ? 6 : options.family || 0;
+    const candidates = family ? entries.filter((entry) => entry.family === family) : entries;
+
+    if (candidates.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(`No checked IPv${family} address for ${hostname}`);
+      error.code = "ENOTFOUND";
+      callback(error, "");
+    } else if (options.all) {
+      callback(null, candidates);
+    } else {
+      callback(null, candidates[0].address, candidates[0].family);
+    }
+  };
+}
+
+/**
+ * Rejects proxy targets outside the allow-list or resolving to private
+ * addresses. Trusted callers skip both checks.
+ *
+ * The check resolves DNS itself, so a hostname on the allow-list that
+ * points at an internal address is still refused. It resolves to a lookup
+ * pinned to the checked addresses, which the upstream connection must use
+ * so a DNS answer that changes after the check (DNS rebinding) is never
+ * connected to; undefined when there is nothing to pin (trusted callers
+ * and IP literals).
+ */
+export async function assertTargetAllowed(
+  targetUrl: string,
+  trusted: boolean = false,
+): Promise<LookupFunction | undefined> {
+  const url = new URL(targetUrl);
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ProxyGuardError(
+      `Unsupported protocol ${url.protocol} - only http and https targets can be proxied`,
+      "unsupported_protocol",
+      400,
+      { protocol: url.protocol },
+    );
+  }
+
+  if (trusted) return undefined;
+
+  // URL keeps IPv6 literals bracketed
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+
+  if (!isHostAllowed(hostname)) {
+    throw new ProxyGuardError(
+      `Host ${hostname} is not on the proxy allow-list`,
+      "host_not_allowed",
+      403,
+      { host: hostname, allowedHosts: getAllowedHosts() },
+    );
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      const results = await lookup(hostname, { all: true });
+      addresses = results.map((result) => result.address);
+    } catch (error) {
+      throw new ProxyGuardError(
+        `Could not resolve host ${hostname}`,
+        "dns_lookup_failed",
+        502,
+        { host: hostname, reason: error instanceof Error ? error.message : String(error) },
+      );
+    }
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new ProxyGuardError(
+      `Host ${hostname} resolves to private address ${blocked}`,
+      "private_address",
+      403,
+      { host: hostname, address: blocked },
+    );
+  }
+
+  return isIP(hostname) ? undefined : createPinnedLookup(hostname, addresses);
+}
@@ -0,0 +1,510 @@
+import type { Response as ExpressResponse } from "express";
+import { Readable } from "stream";
+import {
+  getResponseEncoding,
+  type ApiRequest,
+  type ApiResponse,
+  type PublicUser,
+  type RedirectHop,
+} from "@shared/schema";
+import {
+  RedirectNotAllowedError,
+  TooManyRedirectsError,
+  UpstreamTimeoutError,
+  toErrorResponse,
+} from "./proxy-errors";
+import { assertTargetAllowed } from "./proxy-guard";
+import { resolveAccessToken } from "./token-vault";
+import { assertRoleAllowed } from "./permissions";
+import { isAuditedMethod, recordAuditEntry } from "./audit";
+import { findReplayFixture, getFixtureMode, recordFixture } from "./fixtures";
+import { trackUpstreamRequest, recordRefusedRequest, type UpstreamOutcome } from "./metrics";
+import { encodeRequestBody } from "./request-body";
+import { acquireRateLimit } from "./rate-limit";
+import { openCookieJar, type CookieJar, type CookieJarStore } from "./cookie-jar";
+import { sendUpstreamRequest, type RequestTimer, type UpstreamRequestInit } from "./upstream-client";
+import { BFL_API_ORIGIN } from "@shared/api-endpoints";
+
+/**
+ * Default upstream timeout, overridable with PROXY_TIMEOUT_MS or per request
+ */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Default number of upstream calls a batch runs at once
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 6;
+
+/**
+ * Hop limit when following redirects, the same as fetch
+ */
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Headers that must not follow a redirect to another origin
+const CREDENTIAL_HEADERS = ["x-access-token", "authorization", "cookie"];
+
+/**
+ * What the proxy learned on the way to the final upstream response
+ */
+export interface UpstreamExchange {
+  timer: RequestTimer;
+  /** Redirects followed before the final response, oldest first */
+  redirects: RedirectHop[];
+}
+
+export interface ProxyCallOptions {
+  /** Whether the caller presented the override key (see proxy-guard) */
+  trusted: boolean;
+  /** Logged-in caller - their role is checked and mutating calls are audited under their name */
+  user: PublicUser;
+  /** Fires when the caller no longer wants the result */
+  signal?: AbortSignal;
+  /** The caller's cookie jars; requests naming a jar send and collect its cookies */
+  cookieJars?: CookieJarStore;
+  /** How long a call may wait for rate limit budget before failing with 429 (0 by default) */
+  rateLimitWaitMs?: number;
+}
+
+/**
+ * Headers used to describe the upstream response when the body is streamed
+ * straight through instead of being wrapped in an ApiResponse envelope
+ */
+export const STREAM_HEADERS = {
+  STATUS: "x-proxy-status",
+  STATUS_TEXT: "x-proxy-status-text",
+  UPSTREAM_HEADERS: "x-proxy-upstream-headers",
+  RESPONSE_TIME: "x-proxy-response-time",
+  TIMINGS: "x-proxy-timings",
+  REDIRECTS: "x-proxy-redirects",
+} as const;
+
+/**
+ * Where a request for BFL_API_ORIGIN is really sent when BFL_API_BASE_URL is
+ * set (e.g. http://localhost:5100 for the mock upstream). The path and query
+ * are kept and appended to the base. Returns null when no base is configured
+ * or the URL belongs to another origin.
+ */
+export function getRebasedUrl(url: string): string | null {
+  const baseUrl = process.env.BFL_API_BASE_URL;
+  if (!baseUrl) return null;
+
+  const target = new URL(url);
+  if (target.origin !== BFL_API_ORIGIN) return null;
+
+  const base = new URL(baseUrl);
+  return `${base.origin}${base.pathname.replace(/\/$/, "")}${target.pathname}${target.search}`;
+}
+
+/**
+ * Builds the options used for the upstream request.
+ * `accessToken` is the vault token for request.identity, if any.
+ */
+export function buildUpstreamOptions(request: ApiRequest, signal?: AbortSignal, accessToken?: string): UpstreamRequestInit {
+  const headers: Record<string, string> = {
+    "accept": "application/json, text/plain, */*",
+    "origin": "https://new-panel.brandsforlessuae.com",
+    "referer": "https://new-panel.brandsforlessuae.com/",
+    "user-agent": "Mozilla/5.0 (compatible; API-Tester/1.0)",
+    ...request.headers,
+  };
+
+  const token = accessToken || request.token;
+  if (token) {
+    headers["x-access-token"] = token;
+  }
+
+  const options: UpstreamRequestInit = {
+    method: request.method,
+    headers,
+    signal,
+  };
+
+  const encoded = encodeRequestBody(request);
+  if (encoded) {
+    options.body = encoded.body;
+    // The body type decides the content type - drop any the caller set by hand
+    for (const name of Object.keys(headers)) {
+      if (name.toLowerCase() === "content-type") delete headers[name];
+    }
+    if (encoded.contentType) {
+      headers["content-type"] = encoded.contentType;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Collects upstream response headers into a plain object
+ */
+export function collectHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return headers;
+}
+
+/**
+ * Reads the whole upstream body and wraps it in an ApiResponse.
+ * The reported size is the decoded byte length of the body, not the length
+ * of its JSON re-serialization. Binary bodies (PDFs, images, ...) are sent
+ * back base64 encoded so they survive the JSON envelope intact.
+ */
+export async function bufferUpstreamResponse(
+  response: Response,
+  startTime: number,
+  exchange?: UpstreamExchange,
+): Promise<ApiResponse> {
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const endTime = Date.now();
+  exchange?.timer.mark("end");
+
+  let encoding = getResponseEncoding(response.headers.get("content-type"));
+  let data: any;
+
+  if (encoding === "base64") {
+    data = buffer.toString("base64");
+  } else {
+    data = buffer.toString("utf8");
+    if (encoding === "json") {
+      try {
+        data = data.length > 0 ? JSON.parse(data) : data;
+      } catch {
+        // Upstream mislabelled its body - hand it back as text
+        encoding = "text";
+      }
+    }
+  }
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    data,
+    headers: collectHeaders(response),
+    responseTime: endTime - startTime,
+    size: buffer.byteLength,
+    encoding,
+    timings: exchange?.timer.toTimings(),
+    ...(exchange?.redirects.length && { redirects: exchange.redirects }),
+  };
+}
+
+/**
+ * Pipes the upstream body straight to the client.
+ *
+ * The upstream status and headers travel in x-proxy-* headers so the client
+ * can rebuild an ApiResponse once the body has been read. Content-Length is
+ * only forwarded when upstream sent an unencoded body, because the upstream
+ * client decompresses transparently and the encoded length would be wrong.
+ * Timings are sent up to the first byte; the client adds the download.
+ *
+ * Resolves with the number of bytes written to the client.
+ */
+export async function streamUpstreamResponse(
+  response: Response,
+  res: ExpressResponse,
+  startTime: number,
+  exchange?: UpstreamExchange,
+): Promise<number> {
+  const upstreamHeaders = collectHeaders(response);
+
+  res.status(200);
+  res.setHeader(STREAM_HEADERS.STATUS, String(response.status));
+  res.setHeader(STREAM_HEADERS.STATUS_TEXT, encodeURIComponent(response.statusText));
+  res.setHeader(STREAM_HEADERS.UPSTREAM_HEADERS, encodeURIComponent(JSON.stringify(upstreamHeaders)));
+  res.setHeader(STREAM_HEADERS.RESPONSE_TIME, String(Date.now() - startTime));
+  if (exchange) {
+    res.setHeader(STREAM_HEADERS.TIMINGS, JSON.stringify(exchange.timer.toTimings()));
+    if (exchange.redirects.length > 0) {
+      res.setHeader(STREAM_HEADERS.REDIRECTS, encodeURIComponent(JSON.stringify(exchange.redirects)));
+    }
+  }
+  res.setHeader("content-type", response.headers.get("content-type") || "application/octet-stream");
+  res.setHeader("cache-control", "no-store");
+
+  const contentLength = response.headers.get("content-length");
+  if (contentLength && !response.headers.get("content-encoding")) {
+    res.setHeader("content-length", contentLength);
+  }
+
+  if (!response.body) {
+    res.end();
+    return 0;
+  }
+
+  const body = Readable.fromWeb(response.body as any);
+  let bytesWritten = 0;
+
+  return new Promise<number>((resolve, reject) => {
+    // Stop pulling from upstream if the browser goes away mid-transfer
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        body.destroy();
+      }
+    });
+
+    body.on("data", (chunk: Buffer) => {
+      bytesWritten += chunk.byteLength;
+    });
+    body.on("error", reject);
+    body.on("close", () => resolve(bytesWritten));
+    body.pipe(res);
+  });
+}
+
+/**
+ * AbortSignal that fires when the client disconnects before its reply has
+ * been fully written, so upstream work nobody is waiting for gets cancelled
+ */
+export function clientAbortSignal(res: ExpressResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+type ConsumeUpstream<T> = (
+  response: Response,
+  startTime: number,
+  disarm: () => void,
+  exchange?: UpstreamExchange,
+) => Promise<T>;
+
+/**
+ * Runs one upstream call (see sendUpstream) and records it in the metrics.
+ * Calls refused before reaching upstream only count by error code, so a
+ * caller can't grow the per-host metrics with hosts it was never allowed to
+ * reach. Mutating calls are written to the audit log once they settle,
+ * including ones that were refused.
+ */
+async function callUpstream<T>(
+  request: ApiRequest,
+  options: ProxyCallOptions,
+  consume: ConsumeUpstream<T>,
+): Promise<T> {
+  let finishMetrics: ((outcome: UpstreamOutcome) => void) | undefined;
+  const startTime = Date.now();
+  let upstreamStatus: number | null = null;
+  let errorCode: string | null = null;
+  let latencyMs: number | null = null;
+  try {
+    const admit = () => {
+      finishMetrics = trackUpstreamRequest(request.url, request.method);
+    };
+    return await sendUpstream(request, options, admit, (response, responseStart, disarm, exchange) => {
+      upstreamStatus = response.status;
+      latencyMs = Date.now() - responseStart;
+      return consume(response, responseStart, disarm, exchange);
+    });
+  } catch (error) {
+    errorCode = options.signal?.aborted ? "client_aborted" : toErrorResponse(error).code;
+    throw error;
+  } finally {
+    if (finishMetrics) {
+      finishMetrics({ upstreamStatus, errorCode, latencyMs });
+    } else if (errorCode) {
+      recordRefusedRequest(errorCode);
+    }
+    if (isAuditedMethod(request.method)) {
+      await recordAuditEntry(request, options.user, {
+        upstreamStatus,
+        errorCode,
+        responseTime: Date.now() - startTime,
+      });
+    }
+  }
+}
+
+/**
+ * Checks the caller's role and the target, resolves the identity's token,
+ * applies the timeout and hands the response to `consume`. The timeout stays
+ * armed until `consume` settles unless it calls `disarm` earlier. `admit` runs
+ * once the request has passed every check and is about to be sent.
+ *
+ * In fixture replay mode a recorded response stands in for upstream, and the
+ * target, rate limit and token checks are skipped since nothing leaves the
+ * server.
+ * Rebased requests (see getRebasedUrl) skip the target check as well: the
+ * operator chose that base, and it is usually a local address.
+ */
+async function sendUpstream<T>(
+  request: ApiRequest,
+  options: ProxyCallOptions,
+  admit: () => void,
+  consume: ConsumeUpstream<T>,
+): Promise<T> {
+  assertRoleAllowed(request, options.user.role);
+
+  const fixture = await findReplayFixture(request);
+  if (fixture) {
+    admit();
+    return consume(fixture, Date.now(), () => {});
+  }
+
+  const rebasedUrl = getRebasedUrl(request.url);
+  const lookup = rebasedUrl ? undefined : await assertTargetAllowed(request.url, options.trusted);
+  await acquireRateLimit(options.user, request.url, options.rateLimitWaitMs, options.signal);
+  admit();
+  const accessToken = request.identity ? await resolveAccessToken(request.identity) : undefined;
+  const jar = request.cookieJar && options.cookieJars
+    ? openCookieJar(options.cookieJars, request.cookieJar)
+    : undefined;
+
+  const timeoutMs = request.timeoutMs || parseInt(process.env.PROXY_TIMEOUT_MS || "", 10) || DEFAULT_TIMEOUT_MS;
+  const timeoutController = new AbortController();
+  const timer = setTimeout(() => timeoutController.abort(), timeoutMs);
+  const disarm = () => clearTimeout(timer);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, timeoutController.signal])
+    : timeoutController.signal;
+
+  const startTime = Date.now();
+  try {
+    const { response, exchange } = await sendWithRedirects(
+      request,
+      { ...buildUpstreamOptions(request, signal, accessToken), lookup },
+      options.trusted,
+      jar,
+    );
+    if (getFixtureMode() === "record") {
+      void recordFixture(request, response.clone());
+    }
+    return await consume(response, startTime, disarm, exchange);
+  } catch (error) {
+    if (timeoutController.signal.aborted) {
+      throw new UpstreamTimeoutError(request.url, timeoutMs);
+    }
+    throw error;
+  } finally {
+    disarm();
+  }
+}
+
+/**
+ * Options for the next hop of a redirect. Like fetch, a 303 (or a 301/302
+ * after a POST) turns the request into a bodyless GET, and credentials are
+ * dropped once the redirect leaves the original origin.
+ */
+function getRedirectOptions(init: UpstreamRequestInit, status: number, crossOrigin: boolean): UpstreamRequestInit {
+  const headers = { ...init.headers };
+  let { method, body } = init;
+
+  if ((status === 303 && method !== "HEAD") || ((status === 301 || status === 302) && method === "POST")) {
+    method = "GET";
+    body = undefined;
+    for (const name of Object.keys(headers)) {
+      if (name.toLowerCase() === "content-type") delete headers[name];
+    }
+  }
+
+  if (crossOrigin) {
+    for (const name of Object.keys(headers)) {
+      if (CREDENTIAL_HEADERS.includes(name.toLowerCase())) delete headers[name];
+    }
+  }
+
+  return { ...init, method, headers, body };
+}
+
+/**
+ * Sends the request upstream and deals with redirects according to
+ * request.redirect. Every hop after the first is checked by the proxy
+ * guard, so a redirect cannot reach a host the caller could not ask for,
+ * and connects through that hop's pinned lookup.
+ * With a cookie jar, each hop sends the jar's cookies for its URL and
+ * stores the cookies it gets back.
+ */
+async function sendWithRedirects(
+  request: ApiRequest,
+  init: UpstreamRequestInit,
+  trusted: boolean,
+  jar?: CookieJar,
+): Promise<{ response: Response; exchange: UpstreamExchange }> {
+  const mode = request.redirect ?? "follow";
+  const originalOrigin = new URL(request.url).origin;
+  const redirects: RedirectHop[] = [];
+  let url = request.url;
+  let hopInit = init;
+
+  while (true) {
+    const { response, timer } = await sendUpstreamRequest(
+      getRebasedUrl(url) ?? url,
+      jar ? { ...hopInit, headers: jar.applyTo(hopInit.headers, url) } : hopInit,
+    );
+    jar?.store(url, response.headers.getSetCookie());
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.includes(response.status) || !location || mode === "manual") {
+      return { response, exchange: { timer, redirects } };
+    }
+
+    await response.body?.cancel();
+    if (mode === "error") {
+      throw new RedirectNotAllowedError(url, response.status, location);
+    }
+    if (redirects.length >= MAX_REDIRECTS) {
+      throw new TooManyRedirectsError(request.url, MAX_REDIRECTS);
+    }
+    redirects.push({ url, status: response.status, location, headers: collectHeaders(response) });
+
+    const nextUrl = new URL(location, url).toString();
+    const lookup = getRebasedUrl(nextUrl) ? undefined : await assertTargetAllowed(nextUrl, trusted);
+    hopInit = {
+      ...getRedirectOptions(hopInit, response.status, new URL(nextUrl).origin !== originalOrigin),
+      lookup,
+    };
+    url = nextUrl;
+  }
+}
+
+/**
+ * Proxies one request and returns the buffered ApiResponse
+ */
+export function executeProxyRequest(request: ApiRequest, options: ProxyCallOptions): Promise<ApiResponse> {
+  return callUpstream(request, options, (response, startTime, _disarm, exchange) =>
+    bufferUpstreamResponse(response, startTime, exchange));
+}
+
+/**
+ * Proxies one request and pipes its body to `res` (see streamUpstreamResponse).
+ * The timeout covers waiting for upstream headers; long downloads may take
+ * as long as they need.
+ */
+export function streamProxyRequest(
+  request: ApiRequest,
+  res: ExpressResponse,
+  options: ProxyCallOptions,
+): Promise<number> {
+  return callUpstream(request, options, (response, startTime, disarm, exchange) => {
+    disarm();
+    return streamUpstreamResponse(response, res, startTime, exchange);
+  });
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the order of `items`.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,163 @@
+import { setTimeout as sleep } from "timers/promises";
+import type { PublicUser, RateLimitBudget, RateLimitStatus } from "@shared/schema";
+import { ProxyError } from "./proxy-errors";
+
+/**
+ * Token buckets that keep one operator, or all of them together, from
+ * flooding an upstream host. Every proxied call takes a token from the
+ * caller's bucket and from the target host's bucket.
+ */
+
+const DEFAULTS = {
+  user: { rate: 5, burst: 20 },
+  host: { rate: 10, burst: 40 },
+};
+
+type RateLimitScope = keyof typeof DEFAULTS;
+
+/**
+ * Raised when the caller's or the host's budget is spent
+ */
+export class RateLimitedError extends ProxyError {
+  constructor(scope: RateLimitScope, key: string, public readonly retryAfterMs: number) {
+    super(
+      scope === "user"
+        ? `Rate limit reached for user ${key} - try again in ${Math.ceil(retryAfterMs / 1000)}s`
+        : `Rate limit reached for upstream host ${key} - try again in ${Math.ceil(retryAfterMs / 1000)}s`,
+      "rate_limited",
+      429,
+      { scope, key, retryAfterMs },
+      true,
+    );
+    this.name = "RateLimitedError";
+  }
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number, readonly refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(now: number) {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+
+  /** Milliseconds until a token is available, 0 when one is available now */
+  waitMs(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  take() {
+    this.tokens -= 1;
+  }
+
+  get remaining(): number {
+    this.refill(Date.now());
+    return Math.floor(this.tokens);
+  }
+}
+
+// Kept per process, so several server instances each allow the full budget
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * Limits for a scope from PROXY_USER_RATE / PROXY_USER_BURST or
+ * PROXY_HOST_RATE / PROXY_HOST_BURST. A rate of 0 turns the scope off.
+ */
+function getLimits(scope: RateLimitScope): { rate: number; burst: number } | null {
+  const prefix = `PROXY_${scope.toUpperCase()}`;
+  const rate = parseFloat(process.env[`${prefix}_RATE`] ?? "");
+  const burst = parseInt(process.env[`${prefix}_BURST`] ?? "", 10);
+
+  const limits = {
+    rate: isNaN(rate) || rate < 0 ? DEFAULTS[scope].rate : rate,
+    burst: burst > 0 ? burst : DEFAULTS[scope].burst,
+  };
+  return limits.rate > 0 ? limits : null;
+}
+
+function getBucket(scope: RateLimitScope, key: string): TokenBucket | null {
+  const limits = getLimits(scope);
+  if (!limits) return null;
+
+  const id = `${scope}:${key}`;
+  let bucket = buckets.get(id);
+  if (!bucket) {
+    bucket = new TokenBucket(limits.burst, limits.rate);
+    buckets.set(id, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Takes a token from the user's and the host's bucket, or neither. When
+ * either is empty the call waits for it up to `maxWaitMs`, then fails with
+ * RateLimitedError. Single proxy calls pass 0 and fail straight away;
+ * server-side batches pace themselves by waiting.
+ */
+export async function acquireRateLimit(
+  user: PublicUser,
+  url: string,
+  maxWaitMs: number = 0,
+  signal?: AbortSignal,
+): Promise<void> {
+  const host = new URL(url).host;
+  const limited: Array<{ scope: RateLimitScope; key: string; bucket: TokenBucket }> = [];
+  const userBucket = getBucket("user", String(user.id));
+  if (userBucket) limited.push({ scope: "user", key: user.username, bucket: userBucket });
+  const hostBucket = getBucket("host", host);
+  if (hostBucket) limited.push({ scope: "host", key: host, bucket: hostBucket });
+
+  const deadline = Date.now() + maxWaitMs;
+  while (true) {
+    const now = Date.now();
+    let blocker: (typeof limited)[number] | undefined;
+    let waitMs = 0;
+    for (const entry of limited) {
+      const entryWait = entry.bucket.waitMs(now);
+      if (entryWait > waitMs) {
+        waitMs = entryWait;
+        blocker = entry;
+      }
+    }
+
+    if (!blocker) {
+      limited.forEach(({ bucket }) => bucket.take());
+      return;
+    }
+    if (now + waitMs > deadline) {
+      throw new RateLimitedError(blocker.scope, blocker.key, waitMs);
+    }
+    await sleep(waitMs, undefined, { signal });
+  }
+}
+
+const toBudget = (key: string, bucket: TokenBucket): RateLimitBudget => ({
+  key,
+  capacity: bucket.capacity,
+  remaining: bucket.remaining,
+  refillPerSecond: bucket.refillPerSecond,
+});
+
+/**
+ * The caller's remaining budget and that of every host called so far
+ */
+export function getRateLimitStatus(user: PublicUser): RateLimitStatus {
+  const userBucket = getBucket("user", String(user.id));
+  const hosts: RateLimitBudget[] = [];
+  if (getLimits("host")) {
+    buckets.forEach((bucket, id) => {
+      if (id.startsWith("host:")) hosts.push(toBudget(id.slice("host:".length), bucket));
+    });
+  }
+
+  return {
+    user: userBucket ? toBudget(user.username, userBucket) : null,
+    hosts: hosts.sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
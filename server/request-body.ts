@@ -0,0 +1,83 @@
+import type { ApiRequest, RequestBodyField } from "@shared/schema";
+
+const BODYLESS_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export interface EncodedBody {
+  body: BodyInit;
+  /** Left out for multipart, where fetch adds the boundary itself */
+  contentType?: string;
+}
+
+const isFile = (field: RequestBodyField) => field.fileName !== undefined;
+
+// Files only make sense in multipart bodies and are left out of forms
+function toUrlEncoded(fields: RequestBodyField[]): string {
+  return new URLSearchParams(
+    fields.filter((field) => !isFile(field)).map((field) => [field.name, field.value]),
+  ).toString();
+}
+
+/**
+ * Encodes the request body according to its bodyType (json by default).
+ * Returns null when there is nothing to send or the method takes no body.
+ */
+export function encodeRequestBody(request: ApiRequest): EncodedBody | null {
+  if (BODYLESS_METHODS.includes(request.method)) return null;
+
+  const fields = request.fields ?? [];
+  switch (request.bodyType ?? "json") {
+    case "form":
+      return fields.length > 0
+        ? { body: toUrlEncoded(fields), contentType: "application/x-www-form-urlencoded" }
+        : null;
+
+    case "multipart": {
+      if (fields.length === 0) return null;
+      const form = new FormData();
+      for (const field of fields) {
+        if (isFile(field)) {
+          const file = new Blob([Buffer.from(field.value, "base64")], {
+            type: field.contentType || "application/octet-stream",
+          });
+          form.append(field.name, file, field.fileName);
+        } else {
+          form.append(field.name, field.value);
+        }
+      }
+      return { body: form };
+    }
+
+    case "raw":
+      return request.body ? { body: request.body, contentType: request.contentType || "text/plain" } : null;
+
+    default:
+      return request.body ? { body: request.body, contentType: "application/json" } : null;
+  }
+}
+
+/**
+ * Readable form of the body for the audit log. Files are listed by name,
+ * type and size instead of their content.
+ */
+export function describeRequestBody(request: ApiRequest): string | undefined {
+  const fields = request.fields ?? [];
+  switch (request.bodyType) {
+    case "form":
+      return fields.length > 0 ? toUrlEncoded(fields) : undefined;
+
+    case "multipart":
+      return fields.length > 0
+        ? JSON.stringify(fields.map((field) => isFile(field)
+            ? {
+                name: field.name,
+                fileName: field.fileName,
+                contentType: field.contentType,
+                size: Buffer.byteLength(field.value, "base64"),
+              }
+            : { name: field.name, value: field.value }))
+        : undefined;
+
+    default:
+      return request.body;
+  }
+}
@@ -1,121 +1,271 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { apiRequestSchema } from "@shared/schema";
+import {
+  apiRequestSchema,
+  apiBatchRequestSchema,
+  insertAccessTokenSchema,
+  auditQuerySchema,
+  cookieJarNameSchema,
+  cookieJarUpdateSchema,
+  type ApiBatchResult,
+  type ApiRequest,
+} from "@shared/schema";
+import {
+  executeProxyRequest,
+  streamProxyRequest,
+  clientAbortSignal,
+  runWithConcurrency,
+  DEFAULT_BATCH_CONCURRENCY,
+  type ProxyCallOptions,
+} from "./proxy";
+import { ProxyError, toErrorResponse } from "./proxy-errors";
+import { isTrustedCaller, OVERRIDE_KEY_HEADER } from "./proxy-guard";
+import { seedAccessTokens, toTokenSummary } from "./token-vault";
+import { setupAuth, requireAuth, requireRole, toPublicUser } from "./auth";
+import { listCookieJars, type CookieJarStore } from "./cookie-jar";
+import { RateLimitedError, getRateLimitStatus } from "./rate-limit";
+import { renderMetrics, requireMetricsToken, METRICS_CONTENT_TYPE } from "./metrics";
 import { z } from "zod";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // API proxy route to handle CORS and make requests to Brands for Less API
-  app.post("/api/proxy", async (req, res) => {
-    try {
-      const validatedRequest = apiRequestSchema.parse(req.body);
-      const startTime = Date.now();
+// Longest a batch item waits for rate limit budget before it fails with 429
+const BATCH_RATE_LIMIT_WAIT_MS = 30000;
 
+export async function registerRoutes(app: Express): Promise<Server> {
+  await setupAuth(app);
+  await seedAccessTokens();
 
+  // Token vault - clients only ever get masked summaries back
+  app.get("/api/tokens", requireAuth, async (_req, res) => {
+    const accessTokens = await storage.listAccessTokens();
+    res.json(accessTokens.map(toTokenSummary));
+  });
 
-      const headers: Record<string, string> = {
-        "accept": "application/json, text/plain, */*",
-        "origin": "https://new-panel.brandsforlessuae.com",
-        "referer": "https://new-panel.brandsforlessuae.com/",
-        "user-agent": "Mozilla/5.0 (compatible; API-Tester/1.0)",
-        ...validatedRequest.headers,
-      };
+  app.post("/api/tokens", requireRole("supervisor"), async (req, res) => {
+    const parsed = insertAccessTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid token",
+        code: "invalid_request",
+        errors: parsed.error.errors,
+      });
+    }
 
-      if (validatedRequest.token) {
-        headers["x-access-token"] = validatedRequest.token;
-      }
+    const accessToken = await storage.saveAccessToken(parsed.data);
+    res.status(201).json(toTokenSummary(accessToken));
+  });
 
-      const fetchOptions: RequestInit = {
-        method: validatedRequest.method,
-        headers,
-      };
+  app.delete("/api/tokens/:name", requireRole("supervisor"), async (req, res) => {
+    const deleted = await storage.deleteAccessToken(req.params.name);
+    if (!deleted) {
+      return res.status(404).json({ message: `No access token stored for identity "${req.params.name}"` });
+    }
+    res.status(204).end();
+  });
 
-      if (validatedRequest.body && !["GET", "HEAD", "OPTIONS"].includes(validatedRequest.method)) {
-        fetchOptions.body = validatedRequest.body;
-        headers["content-type"] = "application/json";
-      }
+  // Audit log of mutating proxy calls, newest first
+  app.get("/api/audit", requireRole("supervisor"), async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid audit filters",
+        code: "invalid_request",
+        errors: parsed.error.errors,
+      });
+    }
 
+    res.json(await storage.listAuditEntries(parsed.data));
+  });
 
+  // Cookie jars of the caller's session, filled by proxy calls that name a jar
+  app.get("/api/cookie-jars", requireAuth, (req, res) => {
+    res.json(listCookieJars(getCookieJars(req)));
+  });
 
-      const response = await fetch(validatedRequest.url, fetchOptions);
-      const endTime = Date.now();
-      
-      // Create response headers array without logging
-      const responseHeadersArray: Array<[string, string]> = [];
-      response.headers.forEach((value, key) => {
-        responseHeadersArray.push([key, value]);
+  app.put("/api/cookie-jars/:name", requireAuth, (req, res) => {
+    const name = cookieJarNameSchema.safeParse(req.params.name);
+    const parsed = cookieJarUpdateSchema.safeParse(req.body);
+    if (!name.success || !parsed.success) {
+      return res.status(400).json({
+        message: "Invalid cookie jar",
+        code: "invalid_request",
+        errors: [...(name.error?.errors ?? []), ...(parsed.error?.errors ?? [])],
       });
-      
-      let data;
-      const contentType = response.headers.get("content-type");
-      
-      if (contentType && contentType.includes("application/json")) {
-        data = await response.json();
-      } else {
-        data = await response.text();
-      }
+    }
 
-      const responseHeaders: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        responseHeaders[key] = value;
-      });
+    getCookieJars(req)[name.data] = parsed.data.cookies;
+    res.json({ name: name.data, cookies: parsed.data.cookies });
+  });
+
+  app.delete("/api/cookie-jars/:name", requireAuth, (req, res) => {
+    const jars = getCookieJars(req);
+    if (!Object.hasOwn(jars, req.params.name)) {
+      return res.status(404).json({ message: `No cookie jar named "${req.params.name}"` });
+    }
+    delete jars[req.params.name];
+    res.status(204).end();
+  });
+
+  // Remaining proxy budgets of the caller and of each upstream host
+  app.get("/api/rate-limits", requireAuth, (req, res) => {
+    res.json(getRateLimitStatus(toPublicUser(req.user!)));
+  });
+
+  // Prometheus scrape target for upstream health
+  app.get("/api/metrics", requireMetricsToken, (_req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
+  // API proxy route to handle CORS and make requests to Brands for Less API
+  app.post("/api/proxy", requireAuth, async (req, res) => {
+    const clientSignal = clientAbortSignal(res);
 
-      const responseData = {
-        status: response.status,
-        statusText: response.statusText,
-        data,
-        headers: responseHeaders,
-        responseTime: endTime - startTime,
-        size: JSON.stringify(data).length,
+    try {
+      const validatedRequest = apiRequestSchema.parse(req.body);
+      const options: ProxyCallOptions = {
+        trusted: isTrustedCaller(req.get(OVERRIDE_KEY_HEADER)),
+        user: toPublicUser(req.user!),
+        signal: clientSignal,
+        cookieJars: getCookieJars(req),
       };
 
+      if (validatedRequest.stream) {
+        await streamProxyRequest(validatedRequest, res, options);
+        return;
+      }
 
+      const responseData = await executeProxyRequest(validatedRequest, options);
 
       res.json(responseData);
     } catch (error) {
-      console.log("❌ ERROR OCCURRED ❌");
-      
-      if (error instanceof z.ZodError) {
-        console.log("🔴 Validation Error:");
-        console.log("Error Type: Zod Validation Error");
-        console.log("Validation Errors:", JSON.stringify(error.errors, null, 2));
-        console.log("Raw Request Body:", JSON.stringify(req.body, null, 2));
-        
-        res.status(400).json({ 
-          message: "Invalid request format", 
-          errors: error.errors 
-        });
-        return;
-      }
+      handleProxyError(error, req, res, clientSignal);
+    }
+  });
 
-      if (error instanceof Error) {
-        console.log("🔴 General Error:");
-        console.log("Error Type:", error.constructor.name);
-        console.log("Error Message:", error.message);
-        console.log("Error Stack:", error.stack);
-        
-        // Log additional fetch-specific error info if available
-        if ('cause' in error) {
-          console.log("Error Cause:", error.cause);
+  // Batch proxy route - runs many upstream calls server-side with bounded concurrency
+  app.post("/api/proxy/batch", requireAuth, async (req, res) => {
+    const clientSignal = clientAbortSignal(res);
+
+    try {
+      const batch = apiBatchRequestSchema.parse(req.body);
+      const options: ProxyCallOptions = {
+        trusted: isTrustedCaller(req.get(OVERRIDE_KEY_HEADER)),
+        user: toPublicUser(req.user!),
+        signal: clientSignal,
+        cookieJars: getCookieJars(req),
+        // Batches pace themselves to the budget rather than failing their items
+        rateLimitWaitMs: BATCH_RATE_LIMIT_WAIT_MS,
+      };
+      const concurrency = batch.concurrency || DEFAULT_BATCH_CONCURRENCY;
+
+      const runItem = async (request: ApiRequest, index: number): Promise<ApiBatchResult> => {
+        try {
+          return { index, ok: true, response: await executeProxyRequest(request, options) };
+        } catch (error) {
+          return { index, ok: false, error: toErrorResponse(error) };
         }
-        
-        res.status(500).json({ 
-          message: "Request failed", 
-          error: error.message 
+      };
+
+      if (batch.stream) {
+        res.status(200);
+        res.setHeader("content-type", "application/x-ndjson");
+        res.setHeader("cache-control", "no-store");
+
+        await runWithConcurrency(batch.requests, concurrency, async (request, index) => {
+          if (clientSignal.aborted) return;
+          const result = await runItem(request, index);
+          if (!clientSignal.aborted) {
+            res.write(JSON.stringify(result) + "\n");
+          }
         });
+
+        res.end();
         return;
       }
 
-      console.log("🔴 Unknown Error:");
-      console.log("Error Type: Unknown");
-      console.log("Error Value:", error);
-      
-      res.status(500).json({ 
-        message: "Unknown error occurred" 
-      });
+      const results = await runWithConcurrency(batch.requests, concurrency, runItem);
+      if (!clientSignal.aborted) {
+        res.json({ results });
+      }
+    } catch (error) {
+      handleProxyError(error, req, res, clientSignal);
     }
   });
 
   const httpServer = createServer(app);
   return httpServer;
 }
+
+function getCookieJars(req: Request): CookieJarStore {
+  req.session.cookieJars ??= {};
+  return req.session.cookieJars;
+}
+
+/**
+ * Shared error reply for the proxy routes
+ */
+function handleProxyError(error: unknown, req: Request, res: Response, clientSignal: AbortSignal) {
+  // The client went away - nobody is left to answer
+  if (clientSignal.aborted) {
+    return;
+  }
+
+  console.log("❌ ERROR OCCURRED ❌");
+
+  // A streamed response may fail after its headers went out - all we can do is cut it off
+  if (res.headersSent) {
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+
+  if (error instanceof ProxyError) {
+    console.log(`🔴 Proxy Error (${error.code}):`, error.message);
+    if (error instanceof RateLimitedError) {
+      res.setHeader("retry-after", String(Math.ceil(error.retryAfterMs / 1000)));
+    }
+    res.status(error.status).json(error.toResponse());
+    return;
+  }
+
+  if (error instanceof z.ZodError) {
+    console.log("🔴 Validation Error:");
+    console.log("Error Type: Zod Validation Error");
+    console.log("Validation Errors:", JSON.stringify(error.errors, null, 2));
+    console.log("Raw Request Body:", JSON.stringify(req.body, null, 2));
+    
+    res.status(400).json({ 
+      message: "Invalid request format", 
+      code: "invalid_request",
+      errors: error.errors 
+    });
+    return;
+  }
+
+  if (error instanceof Error) {
+    console.log("🔴 General Error:");
+    console.log("Error Type:", error.constructor.name);
+    console.log("Error Message:", error.message);
+    console.log("Error Stack:", error.stack);
+    
+    // Log additional fetch-specific error info if available
+    if ('cause' in error) {
+      console.log("Error Cause:", error.cause);
+    }
+    
+    res.status(500).json({ 
+      message: "Request failed", 
+      code: "upstream_error",
+      error: error.message 
+    });
+    return;
+  }
+
+  console.log("🔴 Unknown Error:");
+  console.log("Error Type: Unknown");
+  console.log("Error Value:", error);
+  
+  res.status(500).json({ 
+    message: "Unknown error occurred",
+    code: "upstream_error"
+  });
+}
@@ -1,4 +1,17 @@
-import { type User, type InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, gte, ilike, lte, or } from "drizzle-orm";
+import {
+  users,
+  accessTokens,
+  auditEntries,
+  type User,
+  type InsertUser,
+  type UserRole,
+  type AccessToken,
+  type InsertAccessToken,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditQuery,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
 
 // modify the interface with any CRUD methods
@@ -8,13 +21,28 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
+  getAccessToken(name: string): Promise<AccessToken | undefined>;
+  listAccessTokens(): Promise<AccessToken[]>;
+  saveAccessToken(accessToken: InsertAccessToken): Promise<AccessToken>;
+  deleteAccessToken(name: string): Promise<boolean>;
+  // Audit entries can be added and read, never changed or removed
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  listAuditEntries(query?: AuditQuery): Promise<AuditEntry[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private accessTokens: Map<string, AccessToken>;
+  private auditEntries: AuditEntry[];
+  private nextAuditId: number;
 
   constructor() {
     this.users = new Map();
+    this.accessTokens = new Map();
+    this.auditEntries = [];
+    this.nextAuditId = 1;
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -29,10 +57,166 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, role: insertUser.role ?? "viewer", id };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = { ...user, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getAccessToken(name: string): Promise<AccessToken | undefined> {
+    return this.accessTokens.get(name);
+  }
+
+  async listAccessTokens(): Promise<AccessToken[]> {
+    return Array.from(this.accessTokens.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async saveAccessToken(insertAccessToken: InsertAccessToken): Promise<AccessToken> {
+    const accessToken: AccessToken = { ...insertAccessToken, createdAt: new Date() };
+    this.accessTokens.set(accessToken.name, accessToken);
+    return accessToken;
+  }
+
+  async deleteAccessToken(name: string): Promise<boolean> {
+    return this.accessTokens.delete(name);
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const entry: AuditEntry = { ...insertEntry, id: this.nextAuditId++, createdAt: new Date() };
+    this.auditEntries.push(entry);
+    return entry;
+  }
+
+  async listAuditEntries(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const search = query.search?.toLowerCase();
+
+    return this.auditEntries
+      .filter((entry) =>
+        (!query.method || entry.method === query.method.toUpperCase()) &&
+        (!query.username || entry.username === query.username) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt <= query.to) &&
+        (!search || [entry.url, entry.customerId, entry.orderId].some(
+          (value) => value?.toLowerCase().includes(search),
+        )),
+      )
+      .reverse();
+  }
+}
+
+type Database = typeof import("./db").db;
+
+/**
+ * Keeps everything in Postgres (see `npm run db:push`), so it survives
+ * restarts and every server instance sees the same users, tokens and audit
+ * entries
+ */
+export class DatabaseStorage implements IStorage {
+  // db.ts refuses to load without DATABASE_URL, so it is only imported once used
+  private db: Promise<Database> = import("./db").then((module) => module.db);
+
+  async getUser(id: string): Promise<User | undefined> {
+    const db = await this.db;
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.db;
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await this.db;
+    const [user] = await db
+      .insert(users)
+      .values({ ...insertUser, role: insertUser.role ?? "viewer" })
+      .returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const db = await this.db;
+    return db.select().from(users);
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const db = await this.db;
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getAccessToken(name: string): Promise<AccessToken | undefined> {
+    const db = await this.db;
+    const [accessToken] = await db.select().from(accessTokens).where(eq(accessTokens.name, name));
+    return accessToken;
+  }
+
+  async listAccessTokens(): Promise<AccessToken[]> {
+    const db = await this.db;
+    return db.select().from(accessTokens).orderBy(asc(accessTokens.name));
+  }
+
+  async saveAccessToken(insertAccessToken: InsertAccessToken): Promise<AccessToken> {
+    const db = await this.db;
+    const values = { ...insertAccessToken, createdAt: new Date() };
+    const [accessToken] = await db
+      .insert(accessTokens)
+      .values(values)
+      .onConflictDoUpdate({ target: accessTokens.name, set: { token: values.token, createdAt: values.createdAt } })
+      .returning();
+    return accessToken;
+  }
+
+  async deleteAccessToken(name: string): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(accessTokens).where(eq(accessTokens.name, name)).returning();
+    return deleted.length > 0;
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const db = await this.db;
+    const [entry] = await db.insert(auditEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async listAuditEntries(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const db = await this.db;
+    // Matched literally, like MemStorage does
+    const search = query.search && `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+
+    return db
+      .select()
+      .from(auditEntries)
+      .where(and(
+        query.method ? eq(auditEntries.method, query.method.toUpperCase()) : undefined,
+        query.username ? eq(auditEntries.username, query.username) : undefined,
+        query.from ? gte(auditEntries.createdAt, query.from) : undefined,
+        query.to ? lte(auditEntries.createdAt, query.to) : undefined,
+        search ? or(
+          ilike(auditEntries.url, search),
+          ilike(auditEntries.customerId, search),
+          ilike(auditEntries.orderId, search),
+        ) : undefined,
+      ))
+      .orderBy(desc(auditEntries.id));
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is configured; otherwise everything is lost on restart
+export const storage: IStorage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemStorage();
@@ -0,0 +1,79 @@
+import type { AccessToken, AccessTokenSummary } from "@shared/schema";
+import { storage } from "./storage";
+import { ProxyError } from "./proxy-errors";
+
+/**
+ * Raised when a request names an identity the vault does not hold
+ */
+export class UnknownIdentityError extends ProxyError {
+  constructor(identity: string) {
+    super(`No access token stored for identity "${identity}"`, "unknown_identity", 400, { identity });
+    this.name = "UnknownIdentityError";
+  }
+}
+
+/**
+ * Shows just enough of a token to tell two apart
+ */
+export function maskToken(token: string): string {
+  if (token.length <= 12) return "••••";
+  return `${token.slice(0, 4)}…${token.slice(-4)}`;
+}
+
+/**
+ * Reads the `exp` claim of a JWT. Tokens that are not JWTs, or carry no
+ * expiry, return null. The signature is not checked - upstream does that.
+ */
+export function decodeTokenExpiry(token: string): Date | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof claims.exp === "number" ? new Date(claims.exp * 1000) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function toTokenSummary(accessToken: AccessToken): AccessTokenSummary {
+  const expiresAt = decodeTokenExpiry(accessToken.token);
+  return {
+    name: accessToken.name,
+    preview: maskToken(accessToken.token),
+    expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    expired: expiresAt ? expiresAt.getTime() <= Date.now() : false,
+    createdAt: accessToken.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Loads identities from PROXY_ACCESS_TOKENS, a comma separated list of
+ * name=token pairs, e.g. "support=eyJ...,readonly=eyJ..."
+ */
+export async function seedAccessTokens(): Promise<void> {
+  const configured = process.env.PROXY_ACCESS_TOKENS;
+  if (!configured) return;
+
+  for (const entry of configured.split(",")) {
+    const separator = entry.indexOf("=");
+    if (separator <= 0) continue;
+
+    const name = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (name && token) {
+      await storage.saveAccessToken({ name, token });
+    }
+  }
+}
+
+/**
+ * Looks up the token stored for an identity
+ */
+export async function resolveAccessToken(identity: string): Promise<string> {
+  const accessToken = await storage.getAccessToken(identity);
+  if (!accessToken) {
+    throw new UnknownIdentityError(identity);
+  }
+  return accessToken.token;
+}
@@ -0,0 +1,174 @@
+import http from "http";
+import https from "https";
+import zlib from "zlib";
+import { performance } from "perf_hooks";
+import { Readable, pipeline } from "stream";
+import type { LookupFunction, Socket } from "net";
+import type { ResponseTimings } from "@shared/schema";
+import { getConnectionPool } from "./connection-pool";
+
+/**
+ * Upstream HTTP client. Sends requests with node's http/https modules rather
+ * than fetch so each phase of the exchange can be timed, and hands back a
+ * standard Response so callers can treat it like a fetch result. Requests go
+ * through the keep-alive pool of their upstream host (see connection-pool).
+ */
+
+export interface UpstreamRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+  /** Resolves the host when a new connection is opened - see createPinnedLookup */
+  lookup?: LookupFunction;
+}
+
+export interface UpstreamResult {
+  response: Response;
+  timer: RequestTimer;
+}
+
+type TimingMark = "socket" | "lookup" | "connect" | "secureConnect" | "response" | "end";
+
+// Statuses the Response constructor refuses a body for
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+/**
+ * Records when each phase of an upstream request ended
+ */
+export class RequestTimer {
+  private readonly startedAt = performance.now();
+  private readonly marks: Partial<Record<TimingMark, number>> = {};
+  reusedConnection = false;
+
+  /** Records a phase end; only the first mark of each phase counts */
+  mark(name: TimingMark) {
+    this.marks[name] ??= performance.now();
+  }
+
+  toTimings(): ResponseTimings {
+    const { socket = this.startedAt, lookup, connect, secureConnect, response, end } = this.marks;
+    const dnsEnd = lookup ?? socket;
+    const connectEnd = connect ?? dnsEnd;
+    const tlsEnd = secureConnect ?? connectEnd;
+    const responseStart = response ?? tlsEnd;
+    const responseEnd = end ?? responseStart;
+
+    return {
+      blocked: round(socket - this.startedAt),
+      dns: round(dnsEnd - socket),
+      connect: round(connectEnd - dnsEnd),
+      tls: round(tlsEnd - connectEnd),
+      firstByte: round(responseStart - tlsEnd),
+      download: round(responseEnd - responseStart),
+      total: round(responseEnd - this.startedAt),
+      reusedConnection: this.reusedConnection,
+    };
+  }
+}
+
+/**
+ * Undoes the content encoding, as fetch would
+ */
+function decodeBody(res: http.IncomingMessage): Readable {
+  const encoding = (res.headers["content-encoding"] || "").toLowerCase().trim();
+  const decoder =
+    encoding === "gzip" || encoding === "x-gzip" ? zlib.createGunzip() :
+    encoding === "deflate" ? zlib.createInflate() :
+    encoding === "br" ? zlib.createBrotliDecompress() :
+    null;
+
+  if (!decoder) return res;
+  pipeline(res, decoder, () => {});
+  return decoder;
+}
+
+function toHeaders(rawHeaders: string[]): Headers {
+  const headers = new Headers();
+  for (let i = 0; i < rawHeaders.length; i += 2) {
+    try {
+      headers.append(rawHeaders[i], rawHeaders[i + 1]);
+    } catch {
+      // Skip header values Headers refuses rather than failing the response
+    }
+  }
+  return headers;
+}
+
+function watchSocket(socket: Socket, timer: RequestTimer) {
+  timer.mark("socket");
+  if (!socket.connecting) {
+    timer.reusedConnection = true;
+    return;
+  }
+  socket.once("lookup", () => timer.mark("lookup"));
+  socket.once("connect", () => timer.mark("connect"));
+  socket.once("secureConnect", () => timer.mark("secureConnect"));
+}
+
+/**
+ * Sends one request upstream. Resolves once the response headers arrive;
+ * the timer's download phase ends when the body has been read.
+ */
+export async function sendUpstreamRequest(url: string, init: UpstreamRequestInit): Promise<UpstreamResult> {
+  const target = new URL(url);
+  const transport = target.protocol === "https:" ? https : http;
+  const pool = getConnectionPool(target);
+  const headers: Record<string, string> = { ...init.headers };
+  const hasHeader = (name: string) => Object.keys(headers).some((key) => key.toLowerCase() === name);
+
+  // Let Response serialize any BodyInit, including FormData with its boundary
+  let body: Buffer | undefined;
+  if (init.body != null) {
+    const serialized = new Response(init.body);
+    body = Buffer.from(await serialized.arrayBuffer());
+    const contentType = serialized.headers.get("content-type");
+    if (contentType && !hasHeader("content-type")) {
+      headers["content-type"] = contentType;
+    }
+    headers["content-length"] = String(body.byteLength);
+  }
+  if (!hasHeader("accept-encoding")) {
+    headers["accept-encoding"] = "gzip, deflate, br";
+  }
+
+  return new Promise<UpstreamResult>((resolve, reject) => {
+    const timer = new RequestTimer();
+    const req = transport.request(target, {
+      method: init.method,
+      headers,
+      signal: init.signal,
+      agent: pool.agent,
+      lookup: init.lookup,
+    }, (res) => {
+      timer.mark("response");
+      res.once("end", () => timer.mark("end"));
+
+      const status = res.statusCode || 502;
+      const hasBody = !NULL_BODY_STATUSES.includes(status) && init.method !== "HEAD";
+      if (!hasBody) res.resume();
+
+      try {
+        const response = new Response(hasBody ? (Readable.toWeb(decodeBody(res)) as ReadableStream) : null, {
+          status,
+          statusText: res.statusMessage,
+          headers: toHeaders(res.rawHeaders),
+        });
+        resolve({ response, timer });
+      } catch (error) {
+        res.destroy();
+        reject(error);
+      }
+    });
+
+    req.once("socket", (socket) => {
+      watchSocket(socket, timer);
+      pool.requests++;
+      if (timer.reusedConnection) pool.reusedRequests++;
+    });
+    req.once("error", reject);
+    req.end(body);
+  });
+}
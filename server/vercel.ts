@@ -0,0 +1,19 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { createApp } from "./app";
+import { assertSharedStateConfig } from "./auth";
+
+// Logins, the token vault and the audit log must be the same on every instance
+assertSharedStateConfig();
+
+// Built once per function instance and reused across invocations
+const appReady = createApp().then(({ app }) => app);
+
+/**
+ * Vercel serverless entry point (bundled to dist/vercel.js, loaded by
+ * api/index.js). Hands every /api request to the same Express app the
+ * regular server runs.
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  const app = await appReady;
+  app(req, res);
+}
@@ -1,33 +1,239 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, varchar, serial, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+/**
+ * Team roles, lowest first. Each role can do everything the ones before it can.
+ */
+export const USER_ROLES = ["viewer", "agent", "supervisor"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export function hasRole(role: UserRole, requiredRole: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(requiredRole);
+}
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role", { enum: USER_ROLES }).notNull().default("viewer"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(USER_ROLES).optional(),
+}).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user - never the password hash
+export type PublicUser = Omit<User, "password">;
+
+// Upstream access tokens, kept server-side and referenced by identity name
+export const accessTokens = pgTable("access_tokens", {
+  name: text("name").primaryKey(),
+  token: text("token").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAccessTokenSchema = createInsertSchema(accessTokens, {
+  name: z.string().trim().min(1).max(64).regex(/^[\w.-]+$/, "Use letters, digits, dots, dashes or underscores"),
+  token: z.string().trim().min(1),
+}).pick({
+  name: true,
+  token: true,
+});
+
+export type InsertAccessToken = z.infer<typeof insertAccessTokenSchema>;
+export type AccessToken = typeof accessTokens.$inferSelect;
+
+// Append-only record of every mutating request sent through the proxy
+export const auditEntries = pgTable("audit_entries", {
+  id: serial("id").primaryKey(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: varchar("user_id").notNull(),
+  username: text("username").notNull(),
+  method: text("method").notNull(),
+  url: text("url").notNull(),
+  body: text("body"),
+  identity: text("identity"),
+  // Customer and order the request was about, when they can be read from the URL or body
+  customerId: text("customer_id"),
+  orderId: text("order_id"),
+  // Null when the request never got an upstream reply
+  upstreamStatus: integer("upstream_status"),
+  errorCode: text("error_code"),
+  responseTime: integer("response_time").notNull(),
+});
+
+export type AuditEntry = typeof auditEntries.$inferSelect;
+export type InsertAuditEntry = Omit<AuditEntry, "id" | "createdAt">;
+
+// Filters for GET /api/audit, all optional
+export const auditQuerySchema = z.object({
+  method: z.string().optional(),
+  username: z.string().optional(),
+  // Matched against the URL, customer ID and order ID
+  search: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+/**
+ * What clients get to see of a stored token - never the token itself
+ */
+export interface AccessTokenSummary {
+  name: string;
+  // First and last few characters, e.g. "eyJh…x3Qk"
+  preview: string;
+  // Decoded JWT `exp` as an ISO string, null if the token has none
+  expiresAt: string | null;
+  expired: boolean;
+  createdAt: string;
+}
 
 // API Testing schemas
+/**
+ * How the proxy encodes a request body:
+ * - json: `body` sent as application/json (the default)
+ * - form: `fields` sent as application/x-www-form-urlencoded
+ * - multipart: `fields` sent as multipart/form-data, with files
+ * - raw: `body` sent as-is with `contentType`
+ */
+export const REQUEST_BODY_TYPES = ["json", "form", "multipart", "raw"] as const;
+export type RequestBodyType = typeof REQUEST_BODY_TYPES[number];
+
+export const requestBodyFieldSchema = z.object({
+  name: z.string().min(1),
+  value: z.string(),
+  // Multipart only: marks the field as a file whose value is its base64 content
+  fileName: z.string().optional(),
+  contentType: z.string().optional(),
+});
+
+export type RequestBodyField = z.infer<typeof requestBodyFieldSchema>;
+
+/**
+ * A cookie held in a named cookie jar, as the proxy parsed it from Set-Cookie
+ */
+export const storedCookieSchema = z.object({
+  name: z.string().min(1).max(256),
+  value: z.string().max(4096),
+  domain: z.string().min(1).max(253),
+  path: z.string().startsWith("/").default("/"),
+  // Epoch milliseconds; absent for session cookies
+  expires: z.number().int().optional(),
+  secure: z.boolean().default(false),
+  httpOnly: z.boolean().default(false),
+  // Sent to the exact domain only, not its subdomains
+  hostOnly: z.boolean().default(true),
+});
+
+export type StoredCookie = z.infer<typeof storedCookieSchema>;
+
+// Jar names become keys of a plain object kept in the session
+export const cookieJarNameSchema = z.string().trim().min(1).max(64)
+  .regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, dashes or underscores")
+  .refine((name) => name !== "__proto__", "This name is reserved");
+
+export const cookieJarUpdateSchema = z.object({
+  cookies: z.array(storedCookieSchema).max(200),
+});
+
+export interface CookieJarSummary {
+  name: string;
+  cookies: StoredCookie[];
+}
+
+/**
+ * What the proxy does when upstream answers with a redirect:
+ * - follow: follow it and report each hop (the default)
+ * - manual: stop and return the redirect response itself
+ * - error: fail with redirect_not_allowed
+ */
+export const REDIRECT_MODES = ["follow", "manual", "error"] as const;
+export type RedirectMode = typeof REDIRECT_MODES[number];
+
 export const apiRequestSchema = z.object({
   url: z.string().url(),
   method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS", "TRACE", "CONNECT"]).default("GET"),
   headers: z.record(z.string()).optional(),
   body: z.string().optional(),
+  bodyType: z.enum(REQUEST_BODY_TYPES).optional(),
+  // Content type of a raw body (defaults to text/plain)
+  contentType: z.string().optional(),
+  // Fields of a form or multipart body
+  fields: z.array(requestBodyFieldSchema).max(100).optional(),
+  // Named identity whose stored token the proxy sends as x-access-token
+  identity: z.string().optional(),
+  // Raw token for one-off calls from scripts; ignored when identity is set
   token: z.string().optional(),
+  // Pipe the upstream body through as-is instead of wrapping it in an ApiResponse
+  stream: z.boolean().optional(),
+  // Abort the upstream call if it takes longer than this (defaults to PROXY_TIMEOUT_MS)
+  timeoutMs: z.number().int().positive().max(300000).optional(),
+  redirect: z.enum(REDIRECT_MODES).optional(),
+  // Named cookie jar of the caller's session that supplies and collects cookies
+  cookieJar: cookieJarNameSchema.optional(),
 });
 
 export type ApiRequest = z.infer<typeof apiRequestSchema>;
 
+// Batch proxy schemas
+export const apiBatchRequestSchema = z.object({
+  requests: z.array(apiRequestSchema).min(1).max(200),
+  // Upstream calls run at once on the server (defaults to 6)
+  concurrency: z.number().int().min(1).max(16).optional(),
+  // Reply with NDJSON, one ApiBatchResult per line as each call finishes
+  stream: z.boolean().optional(),
+});
+
+export type ApiBatchRequest = z.infer<typeof apiBatchRequestSchema>;
+
+/**
+ * How ApiResponse.data is encoded:
+ * - json: parsed JSON value
+ * - text: decoded UTF-8 string
+ * - base64: binary body as a base64 string (buffered proxy responses)
+ * - blob: binary body as a Blob (streamed responses, client only)
+ */
+export type ResponseEncoding = "json" | "text" | "base64" | "blob";
+
+/**
+ * Phases of one upstream request in milliseconds, back to back: waiting for
+ * a socket, DNS lookup, TCP connect, TLS handshake, waiting for the first
+ * byte (which includes sending the request) and reading the body. A reused
+ * keep-alive connection skips DNS, connect and TLS, so those are 0.
+ */
+export interface ResponseTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  tls: number;
+  firstByte: number;
+  download: number;
+  total: number;
+  reusedConnection: boolean;
+}
+
+/**
+ * One redirect the proxy followed: the URL it requested and what came back
+ */
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+  headers: Record<string, string>;
+}
+
 export interface ApiResponse {
   status: number;
   statusText: string;
@@ -35,8 +241,91 @@ export interface ApiResponse {
   headers: Record<string, string>;
   responseTime: number;
   size: number;
+  encoding?: ResponseEncoding;
+  // Absent for responses replayed from fixtures
+  timings?: ResponseTimings;
+  // Redirects followed before this response, oldest first
+  redirects?: RedirectHop[];
 }
 
+/**
+ * Picks the encoding for a response body based on its content type.
+ * Bodies without a content type are treated as text, matching how the proxy
+ * has always handled them.
+ */
+export function getResponseEncoding(contentType: string | null | undefined): ResponseEncoding {
+  if (!contentType) return "text";
+
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  if (mimeType === "application/json" || mimeType.endsWith("+json")) return "json";
+  if (
+    mimeType.startsWith("text/") ||
+    mimeType.endsWith("+xml") ||
+    ["application/xml", "application/javascript", "application/x-www-form-urlencoded"].includes(mimeType)
+  ) {
+    return "text";
+  }
+
+  return "base64";
+}
+
+/**
+ * Machine-readable reasons the proxy can reject or fail a request
+ */
+export type ProxyErrorCode =
+  | "invalid_request"
+  | "unknown_identity"
+  | "insufficient_role"
+  | "unsupported_protocol"
+  | "host_not_allowed"
+  | "private_address"
+  | "dns_lookup_failed"
+  | "upstream_timeout"
+  | "fixture_not_found"
+  | "redirect_not_allowed"
+  | "too_many_redirects"
+  | "rate_limited"
+  | "upstream_error";
+
+/**
+ * Error body returned by the proxy for any non-2xx reply
+ */
+export interface ProxyErrorResponse {
+  message: string;
+  code: ProxyErrorCode;
+  error?: string;
+  errors?: unknown;
+  details?: Record<string, unknown>;
+  // Whether sending the same request again may succeed
+  retryable?: boolean;
+}
+
+/**
+ * Remaining proxy budget of one token bucket (see server/rate-limit.ts)
+ */
+export interface RateLimitBudget {
+  /** Host name, or the username for the caller's own bucket */
+  key: string;
+  capacity: number;
+  remaining: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitStatus {
+  /** Null when per-user limits are off */
+  user: RateLimitBudget | null;
+  /** Hosts called since the server started; empty when per-host limits are off */
+  hosts: RateLimitBudget[];
+}
+
+/**
+ * Outcome of one request in a /api/proxy/batch call. `index` is the
+ * position of the request in the submitted array.
+ */
+export type ApiBatchResult =
+  | { index: number; ok: true; response: ApiResponse }
+  | { index: number; ok: false; error: ProxyErrorResponse };
+
 // Customer Profile schemas
 export const customerProfileSchema = z.object({
   customerId: z.string(),
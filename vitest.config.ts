@@ -0,0 +1,13 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+// vite.config.ts roots Vite at client/; tests live next to their modules in
+// client, server and shared alike
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      dir: import.meta.dirname,
+    },
+  }),
+);